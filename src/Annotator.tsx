@@ -14,10 +14,34 @@ import {
 import annotationPlugin from 'chartjs-plugin-annotation';
 
 // --- Imports (Adjust paths as needed) ---
-import { BagService, type ParsedFrame, type JointStateMsg } from './services/BagService';
+import { BagService, type ParsedFrame } from './services/BagService';
+import { JointHistory, JOINT_FIELDS, type JointField } from './services/JointHistory';
+import { collectDroppedRecordings, sortRecordingFiles, stripRecordingExtension, SUPPORTED_EXTENSIONS } from './services/readers';
+import { FrameCanvas } from './components/image/FrameCanvas';
 import UrdfViewer from './components/urdf/UrdfViewer';
+import { FieldPathPicker } from './components/chart/FieldPathPicker';
 import { UrdfSettingsDialog, PIPER_CONFIG } from './components/dialogs/UrdfSettingsDialog';
+import { SyncSettingsDialog } from './components/dialogs/SyncSettingsDialog';
+import { DiagnosticsDialog } from './components/dialogs/DiagnosticsDialog';
+import { DepthSettingsDialog } from './components/dialogs/DepthSettingsDialog';
+import { SegmentationSettingsDialog } from './components/dialogs/SegmentationSettingsDialog';
+import { CameraCalibrationDialog } from './components/dialogs/CameraCalibrationDialog';
+import { DatasetExportDialog } from './components/dialogs/DatasetExportDialog';
+import { BagExportDialog } from './components/dialogs/BagExportDialog';
+import { AnnotationImportDialog } from './components/dialogs/AnnotationImportDialog';
+import { SessionsDialog } from './components/dialogs/SessionsDialog';
+import { readAnnotationExport, type AnnotationImport } from './services/AnnotationImport';
+import { loadSession, recordingKey, saveSession, type SavedSession, type SessionAnnotations } from './services/SessionStore';
+import { EditHistory } from './services/EditHistory';
+import { ProjectionOverlay } from './components/image/ProjectionOverlay';
+import { DEFAULT_SYNC_OPTIONS, describeSync, type SyncOptions } from './services/TimelineSync';
+import { DEFAULT_DEPTH_DISPLAY, describeDepthDisplay, type DepthDisplay } from './services/DepthDisplay';
+import { CABLE_PRESET, segmentTaskStates, type SegmentationConfig, type TaskSegment } from './services/TaskSegmenter';
+import { cartesianStateAction, compileJointMapping, computeLinkTrajectories, linkPosesAt, trajectorySignals, TRAIL_COLORS } from './services/Kinematics';
+import { defaultCalibration, projectRobot, type CameraCalibration, type ProjectedOverlay } from './services/CameraProjection';
+import { compose, invert } from './services/TransformBuffer';
 import type { UrdfConfig } from './components/urdf/UrdfViewer';
+import type { URDFRobot } from './components/urdf/URDFClasses';
 
 // --- Register ChartJS ---
 ChartJS.register(CategoryScale, LinearScale, PointElement, LineElement, Title, Tooltip, Legend, annotationPlugin);
@@ -39,10 +63,23 @@ interface ContactAnnotation {
     end: number;
 }
 
+interface Annotations {
+    subtasks: SubtaskAnnotation[];
+    contacts: ContactAnnotation[];
+}
+
+interface AutosaveTarget {
+    key: string; // Content key of the recording
+    fileName: string;
+    fileSize: number;
+    baseline: string; // Annotations as loaded or restored; saving starts with the first change from these
+}
+
 interface DraggingState {
     type: 'contact';
     id: string;
     edge: 'start' | 'end';
+    before: Annotations; // As the drag started, so the whole drag is one undo step
 }
 
 // --- Constants ---
@@ -57,8 +94,81 @@ const MIN_CONTACT_FRAMES = 5;
 const PLACEHOLDER_IMG = 'data:image/svg+xml;charset=UTF-8,%3csvg xmlns="http://www.w3.org/2000/svg" width="640" height="480"%3e%3crect width="100%25" height="100%25" fill="%230f172a"/%3e%3ctext x="50%25" y="50%25" fill="%23334155" font-family="monospace" font-size="20px" dominant-baseline="middle" text-anchor="middle"%3eNO SIGNAL%3c/text%3e%3c/svg%3e';
 
 // --- Helpers ---
+const AUTOSAVE_DELAY_MS = 500;
+
+// Spans with the times of their first and last frame, so they survive a change of frame timeline
+const withFrameTimes = <T extends { start: number; end: number }>(spans: T[], timestamps: number[]) =>
+    spans.map(s => ({ ...s, startTime: timestamps[s.start], endTime: timestamps[s.end] }));
+
+// The annotations with enough of the frame timeline to place them on another one later
+const snapshotAnnotations = (fileName: string, timestamps: number[], { subtasks, contacts }: Annotations): SessionAnnotations => ({
+    filename: fileName,
+    metadata: {
+        totalFrames: timestamps.length,
+        startTime: timestamps[0] ?? 0,
+        duration: timestamps.length > 0 ? timestamps[timestamps.length - 1] - timestamps[0] : 0
+    },
+    subtasks: withFrameTimes(subtasks, timestamps),
+    contacts: withFrameTimes(contacts, timestamps)
+});
+
 const generateUniqueId = () => `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
 
+const SYNC_STORAGE_KEY = 'rosbag-sync-options';
+
+const loadSavedSyncOptions = (): SyncOptions => {
+    try {
+        const saved = localStorage.getItem(SYNC_STORAGE_KEY);
+        return saved ? { ...DEFAULT_SYNC_OPTIONS, ...JSON.parse(saved) } : DEFAULT_SYNC_OPTIONS;
+    } catch {
+        return DEFAULT_SYNC_OPTIONS;
+    }
+};
+
+const SEGMENTATION_STORAGE_KEY = 'rosbag-segmentation-config';
+
+const loadSavedSegmentationConfig = (): SegmentationConfig => {
+    try {
+        const saved = localStorage.getItem(SEGMENTATION_STORAGE_KEY);
+        return saved ? { ...CABLE_PRESET, ...JSON.parse(saved) } : CABLE_PRESET;
+    } catch {
+        return CABLE_PRESET;
+    }
+};
+
+const DEPTH_DISPLAY_STORAGE_KEY = 'rosbag-depth-display';
+
+const loadSavedDepthDisplay = (): Record<string, DepthDisplay> => {
+    try {
+        const saved = localStorage.getItem(DEPTH_DISPLAY_STORAGE_KEY);
+        return saved ? JSON.parse(saved) : {};
+    } catch {
+        return {};
+    }
+};
+
+const TRAIL_LINKS_STORAGE_KEY = 'rosbag-trail-links';
+
+const loadSavedTrailLinks = (): string[] => {
+    try {
+        const saved = localStorage.getItem(TRAIL_LINKS_STORAGE_KEY);
+        return saved ? JSON.parse(saved) : [];
+    } catch {
+        return [];
+    }
+};
+
+const CAMERA_CALIBRATION_STORAGE_KEY = 'rosbag-camera-calibration';
+
+const loadSavedCameraCalibration = (): Record<string, CameraCalibration> => {
+    try {
+        const saved = localStorage.getItem(CAMERA_CALIBRATION_STORAGE_KEY);
+        return saved ? JSON.parse(saved) : {};
+    } catch {
+        return {};
+    }
+};
+
 const formatTime = (ms: number): string => {
     if (isNaN(ms) || ms < 0) return '00:00.000';
     const totalSeconds = Math.floor(ms / 1000);
@@ -76,6 +186,19 @@ const AnnotationPage: React.FC = () => {
     // --- State: Settings ---
     const [isSettingsOpen, setIsSettingsOpen] = useState(false);
     const [urdfConfig, setUrdfConfig] = useState<UrdfConfig>(PIPER_CONFIG);
+    const [isSyncOpen, setIsSyncOpen] = useState(false);
+    const [syncOptions, setSyncOptions] = useState<SyncOptions>(loadSavedSyncOptions);
+    const [isSegmentationOpen, setIsSegmentationOpen] = useState(false);
+    const [isDiagnosticsOpen, setIsDiagnosticsOpen] = useState(false);
+    const [isDatasetExportOpen, setIsDatasetExportOpen] = useState(false);
+    const [isBagExportOpen, setIsBagExportOpen] = useState(false);
+    const [annotationImport, setAnnotationImport] = useState<AnnotationImport | null>(null); // Awaiting confirmation
+    const [isSessionsOpen, setIsSessionsOpen] = useState(false);
+    const [depthDisplay, setDepthDisplay] = useState<Record<string, DepthDisplay>>(loadSavedDepthDisplay); // Per depth topic
+    const [depthSettingsTopic, setDepthSettingsTopic] = useState<string | null>(null);
+    const [segmentationConfig, setSegmentationConfig] = useState<SegmentationConfig>(loadSavedSegmentationConfig);
+    const [cameraCalibration, setCameraCalibration] = useState<Record<string, CameraCalibration>>(loadSavedCameraCalibration); // Per image topic
+    const [calibrationTopic, setCalibrationTopic] = useState<string | null>(null);
 
     // --- State: File & Data ---
     const [isFileLoaded, setIsFileLoaded] = useState(false);
@@ -84,6 +207,7 @@ const AnnotationPage: React.FC = () => {
     const [topicMetadata, setTopicMetadata] = useState<any | null>(null);
     const [isLoadingBag, setIsLoadingBag] = useState(false);
     const [loadingMessage, setLoadingMessage] = useState('');
+    const [loadingPercent, setLoadingPercent] = useState(0);
     const [isDragOver, setIsDragOver] = useState(false);
 
     // --- State: Playback ---
@@ -94,13 +218,20 @@ const AnnotationPage: React.FC = () => {
     // --- State: Visuals ---
     const [orderedImageTopics, setOrderedImageTopics] = useState<string[]>([]);
     const [draggedTopic, setDraggedTopic] = useState<string | null>(null);
-    const [historicalJointData, setHistoricalJointData] = useState<Map<number, Record<string, JointStateMsg>>>(new Map());
+    const [jointHistory, setJointHistory] = useState<JointHistory>(() => new JointHistory());
     const [availableJointNames, setAvailableJointNames] = useState<string[]>([]);
 
     // Joint Graph Settings
-    const [selectedJointDataType, setSelectedJointDataType] = useState<'position' | 'velocity' | 'effort'>('position');
+    const [selectedJointDataType, setSelectedJointDataType] = useState<JointField>('position');
+    const [fieldPaths, setFieldPaths] = useState<string[]>([]);
+    const [selectedSignals, setSelectedSignals] = useState<string[]>([]); // Field paths plotted as-is
+    const [signalData, setSignalData] = useState<Map<string, Float64Array>>(new Map());
     const [selectedJointsToChart, setSelectedJointsToChart] = useState<string[]>([]);
 
+    // Forward kinematics of the trail links, on every frame
+    const [fkRobot, setFkRobot] = useState<URDFRobot | null>(null);
+    const [trailLinks, setTrailLinks] = useState<string[]>(loadSavedTrailLinks);
+
     // --- State: Annotation ---
     const [subtasks, setSubtasks] = useState<SubtaskAnnotation[]>([]);
     const [contacts, setContacts] = useState<ContactAnnotation[]>([]);
@@ -115,48 +246,76 @@ const AnnotationPage: React.FC = () => {
 
     // --- Refs ---
     const playbackInterval = useRef<number | null>(null);
+    const lastFetchedIndexRef = useRef(0); // Latest frame asked for, to drop stale decodes and pick the prefetch direction
     const timelineInnerRef = useRef<HTMLDivElement>(null);
     const fileInputRef = useRef<HTMLInputElement>(null);
+    const importInputRef = useRef<HTMLInputElement>(null);
+    const loadAbortRef = useRef<AbortController | null>(null);
+    const loadedFilesRef = useRef<File[]>([]);
+
+    // --- State: Edit History ---
+    const [history] = useState(() => new EditHistory<Annotations>());
+    const [, setHistoryVersion] = useState(0); // Bumped to re-render the history list
+    const dragResultRef = useRef<ContactAnnotation[] | null>(null); // Contacts as of the last drag move
+
+    // --- State: Autosave ---
+    // Where edits are saved; unset until any saved session of the recording has been restored or declined
+    const [autosave, setAutosave] = useState<AutosaveTarget | null>(null);
+    const [sessionRestore, setSessionRestore] = useState<{ result: AnnotationImport; target: AutosaveTarget } | null>(null); // Offered on load
+    const pendingSessionRef = useRef<SavedSession | null>(null);
+    const autosaveTimerRef = useRef<number | null>(null);
 
     // 1. File Handling
-    const loadBagFile = async (file: File) => {
-        setFileName(file.name);
+    // `carried` are annotations to keep, e.g. across a sync change; they are moved onto the new frames by time
+    const loadBagFiles = async (files: File[], sync: SyncOptions = syncOptions, carried?: SessionAnnotations) => {
+        if (files.length === 0) return;
+        setFileName(files.length > 1 ? `${files[0].name} (+${files.length - 1})` : files[0].name);
         setIsLoadingBag(true);
+        setIsPlaying(false);
         setLoadingMessage('Initializing Reader...');
+        setLoadingPercent(0);
+
+        loadAbortRef.current?.abort();
+        const abortController = new AbortController();
+        loadAbortRef.current = abortController;
+
+        // The previous recording's last edits are saved before its annotations are cleared
+        flushAutosave();
+        setAutosave(null);
+        setSessionRestore(null);
 
         // --- RESET STATE ---
         setContacts([]);      // Clear contacts
         setSubtasks([]);     // Clear subtasks
         setSelectedContactId(null);
         setSelectedSubtaskId(null);
+        history.clear();
+        setHistoryVersion(v => v + 1);
         // -------------------
 
         try {
-            await bagService.loadFile(file, (msg) => setLoadingMessage(msg));
+            await bagService.setDepthDisplay(depthDisplay);
+            await bagService.loadFiles(files, {
+                sync,
+                signal: abortController.signal,
+                onProgress: ({ stage, percent }) => {
+                    setLoadingMessage(stage);
+                    setLoadingPercent(percent);
+                }
+            });
+            loadedFilesRef.current = files;
             setTimestamps(bagService.timestamps);
             setTopicMetadata(bagService.topicMetadata);
 
-            // 1. Get the raw data map
-            const history = bagService.historicalJointData;
-            setHistoricalJointData(history);
-
-            // 2. Discover Joints Dynamically
-            // Look at the first frame that has data
-            const firstData = history.get(0);
-            const foundJoints: string[] = [];
-
-            if (firstData) {
-                // Iterate over all topics in this frame (e.g., /joint_states)
-                Object.entries(firstData).forEach(([topic, msg]) => {
-                    if (msg.name && Array.isArray(msg.name) && msg.name.length > 0) {
-                        msg.name.forEach(name => {
-                            foundJoints.push(`${topic}/${name}`);
-                        });
-                    }
-                });
-            }
+            // Joint columns, addressed as `${topic}/${name}`
+            const loadedJointHistory = bagService.jointHistory;
+            setJointHistory(loadedJointHistory);
 
+            const foundJoints = loadedJointHistory.jointIds;
             setAvailableJointNames(foundJoints);
+            setFieldPaths(bagService.fieldPaths);
+            setSelectedSignals([]);
+            setSignalData(new Map());
 
             // Default: Select first 6 joints for the chart to avoid overcrowding
             setSelectedJointsToChart(foundJoints.slice(0, 6));
@@ -183,108 +342,116 @@ const AnnotationPage: React.FC = () => {
                 setOrderedImageTopics(allImageTopics);
             }
 
+            lastFetchedIndexRef.current = 0;
+            bagService.prefetch(0);
             const frame0 = await bagService.getFrameAt(0);
             setDisplayedFrame(frame0);
+            setJointHistory(bagService.jointHistory);
             setCurrentFrameIndex(0);
 
-            // Auto-generate Subtasks from /puppet/task_state if available
-            const taskHistory = bagService.historicalTaskState;
-            const totalFrames = bagService.timestamps.length;
-            
-            const hasTaskData = Array.from(taskHistory.values()).some(val => val && val.trim() !== '');
-
-            if (hasTaskData && totalFrames > 0) {
-                
-                // Parse and format the task label according to custom rules
-                const parseTaskLabel = (rawStr: string): string => {
-                    if (!rawStr) return '';
-                    try {
-                        const data = JSON.parse(rawStr);
-                        const { phase, instruction } = data;
-
-                        // Apply custom rules
-                        if (phase === 'move') {
-                            return 'move';
-                        }
-                        if (phase === 'pick') {
-                            return `pick the ${instruction} cable`;
-                        }
-                        if (phase === 'insert') {
-                            return `insert the ${instruction} cable`;
-                        }
-
-                        // Fallback logic: if other phases appear, concatenate directly
-                        return `${phase} ${instruction || ''}`.trim();
-                    } catch (e) {
-                        // If not JSON, return the original string
-                        return rawStr;
-                    }
-                };
-
-                const newSubtasks: SubtaskAnnotation[] = [];
-                
-                // Initialize state (compare using parsed text, ignoring ts_ns changes)
-                let currentFormattedLabel = parseTaskLabel(taskHistory.get(0) || '');
-                let startFrame = 0;
-
-                for (let i = 1; i < totalFrames; i++) {
-                    const raw = taskHistory.get(i) || '';
-                    const nextFormattedLabel = parseTaskLabel(raw);
-                    
-                    // Only create a new segment when the "semantic text" changes
-                    if (nextFormattedLabel !== currentFormattedLabel) {
-                        // Save the previous segment
-                        if (currentFormattedLabel !== '') {
-                             newSubtasks.push({
-                                id: generateUniqueId(),
-                                username: 'auto',
-                                start: startFrame,
-                                end: i - 1,
-                                quality: null,
-                                prompt: currentFormattedLabel
-                            });
-                        }
-                        // Start a new segment
-                        currentFormattedLabel = nextFormattedLabel;
-                        startFrame = i;
-                    }
-                }
-
-                // Add the final segment
-                if (currentFormattedLabel !== '') {
-                    newSubtasks.push({
-                        id: generateUniqueId(),
-                        username: 'auto',
-                        start: startFrame,
-                        end: totalFrames - 1,
-                        quality: null,
-                        prompt: currentFormattedLabel
-                    });
-                }
-
-                setSubtasks(newSubtasks);
-            } else {
-                // Fallback: Default single subtask
-                setSubtasks([{
-                    id: generateUniqueId(),
-                    username: 'local',
-                    start: 0,
-                    end: bagService.timestamps.length - 1,
-                    quality: null,
-                    prompt: ''
-                }]);
-            }
+            const carriedOver = carried && readAnnotationExport(carried, 'Annotations before reloading', { fileName: files[0].name, timestamps: bagService.timestamps });
+            const loaded: Annotations = carriedOver
+                ? { subtasks: carriedOver.subtasks.map(s => ({ ...s, id: generateUniqueId() })), contacts: carriedOver.contacts.map(c => ({ ...c, id: generateUniqueId() })) }
+                // Reading a whole topic defeats index-only loading, so large bags segment on request only
+                : { subtasks: await generateSubtasks(segmentationConfig, !bagService.indexOnly), contacts: [] };
+            setSubtasks(loaded.subtasks);
+            setContacts(loaded.contacts);
 
             setIsFileLoaded(true);
+            openSession(files, loaded, !carriedOver);
+            if (carriedOver && carriedOver.notes.length > 0) {
+                alert(`Some annotations did not fit the new frame timeline:\n${carriedOver.notes.join('\n')}`);
+            }
         } catch (err: any) {
+            // A newer load took over and owns the loading state
+            if (loadAbortRef.current !== abortController) return;
+            // The previous recording was unloaded when this load started
+            setIsFileLoaded(false);
+            if (err.name === 'AbortError') {
+                setFileName('');
+                return;
+            }
             console.error(err);
             alert(`Error loading bag: ${err.message}`);
         } finally {
-            setIsLoadingBag(false);
+            if (loadAbortRef.current === abortController) {
+                loadAbortRef.current = null;
+                setIsLoadingBag(false);
+            }
             setIsDragOver(false);
         }
     };
 
+    // Offer the saved session of this recording, if there is one; autosave starts once that is answered
+    const openSession = async (files: File[], loaded: Annotations, offerRestore: boolean) => {
+        try {
+            const key = await recordingKey(files);
+            const saved = await loadSession(key);
+            if (loadedFilesRef.current !== files) return; // Another recording was loaded meanwhile
+
+            const target: AutosaveTarget = { key, fileName: files[0].name, fileSize: files.reduce((n, f) => n + f.size, 0), baseline: JSON.stringify([loaded.subtasks, loaded.contacts]) };
+            if (offerRestore && saved && (saved.annotations.subtasks.length > 0 || saved.annotations.contacts.length > 0)) {
+                setIsPlaying(false);
+                const result = readAnnotationExport(saved.annotations, `Saved ${new Date(saved.savedAt).toLocaleString()}`, { fileName: files[0].name, timestamps: bagService.timestamps });
+                setSessionRestore({ result, target });
+            } else {
+                setAutosave(target);
+            }
+        } catch (err) {
+            console.warn('Session autosave unavailable:', err);
+        }
+    };
+
+    // Subtasks from the configured task-state topic, or one empty subtask spanning the recording
+    const generateSubtasks = async (config: SegmentationConfig, readTaskState = true): Promise<SubtaskAnnotation[]> => {
+        let segments: TaskSegment[] = [];
+        if (readTaskState && config.topic && config.topic in bagService.topicTypes) {
+            try {
+                segments = segmentTaskStates(await bagService.loadTaskStates(config.topic, config.field), config);
+            } catch (e) {
+                console.warn('Auto-segmentation failed:', e);
+            }
+        }
+
+        if (segments.length === 0) {
+            return [{
+                id: generateUniqueId(),
+                username: 'local',
+                start: 0,
+                end: bagService.timestamps.length - 1,
+                quality: null,
+                prompt: ''
+            }];
+        }
+        return segments.map(seg => ({ id: generateUniqueId(), username: 'auto', start: seg.start, end: seg.end, quality: null, prompt: seg.prompt }));
+    };
+
+    const handleSegmentationSave = async (next: SegmentationConfig) => {
+        setSegmentationConfig(next);
+        localStorage.setItem(SEGMENTATION_STORAGE_KEY, JSON.stringify(next));
+        if (isFileLoaded) {
+            setSelectedSubtaskId(null);
+            commitEdit('Auto-segment', { subtasks: await generateSubtasks(next) });
+        }
+    };
+
+    const handleDepthDisplaySave = async (topic: string, display: DepthDisplay) => {
+        const next = { ...depthDisplay, [topic]: display };
+        setDepthDisplay(next);
+        localStorage.setItem(DEPTH_DISPLAY_STORAGE_KEY, JSON.stringify(next));
+        await bagService.setDepthDisplay(next);
+        fetchFrame(currentFrameIndex);
+    };
+
+    const handleSyncSave = (next: SyncOptions) => {
+        setSyncOptions(next);
+        localStorage.setItem(SYNC_STORAGE_KEY, JSON.stringify(next));
+        // Frame indices change with the sync policy, so the annotations travel by their frame times
+        if (isFileLoaded && loadedFilesRef.current.length > 0) {
+            loadBagFiles(loadedFilesRef.current, next, snapshotAnnotations(bagService.sourceFiles[0]?.name ?? fileName, timestamps, { subtasks, contacts }));
+        }
+    };
+
     const handleGlobalDragOver = (e: React.DragEvent) => {
         e.preventDefault();
         // Only trigger if dragging files, NOT if dragging internal elements (like images)
@@ -293,36 +460,127 @@ const AnnotationPage: React.FC = () => {
         }
     };
     const handleGlobalDragLeave = () => setIsDragOver(false);
-    const handleGlobalDrop = (e: React.DragEvent) => {
+    const handleGlobalDrop = async (e: React.DragEvent) => {
         e.preventDefault();
         setIsDragOver(false);
-        if (e.dataTransfer.files?.[0]?.name.endsWith('.bag')) loadBagFile(e.dataTransfer.files[0]);
+        // Several files or a folder are treated as one split recording
+        const files = await collectDroppedRecordings(e.dataTransfer);
+        loadBagFiles(files);
     };
 
     const handleExportJSON = () => {
         const data = {
-            filename: fileName,
+            filename: bagService.sourceFiles[0]?.name ?? fileName,
             metadata: {
                 totalFrames: timestamps.length,
-                duration: timestamps.length > 0 ? timestamps[timestamps.length - 1] - timestamps[0] : 0
+                startTime: timestamps[0] ?? 0,
+                duration: timestamps.length > 0 ? timestamps[timestamps.length - 1] - timestamps[0] : 0,
+                sync: bagService.sync,
+                diagnostics: bagService.diagnostics
             },
-            subtasks,
-            contacts
+            sources: bagService.sourceFiles,
+            subtasks: withFrameTimes(subtasks, timestamps),
+            contacts: withFrameTimes(contacts, timestamps),
+            // Trail link poses in the robot's root link frame; action is the next frame's state
+            cartesian: trajectories.map(t => ({ link: t.link, frame: fkRobot?.urdfName, ...cartesianStateAction(t) }))
         };
         const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
         const url = URL.createObjectURL(blob);
         const link = document.createElement('a');
         link.href = url;
-        link.download = `annotation_${fileName.replace('.bag', '')}_${Date.now()}.json`;
+        link.download = `annotation_${stripRecordingExtension(data.filename)}_${Date.now()}.json`;
         document.body.appendChild(link);
         link.click();
         document.body.removeChild(link);
     };
 
+    const handleImportJSON = async (file: File) => {
+        try {
+            const json = JSON.parse(await file.text());
+            setIsPlaying(false);
+            setAnnotationImport(readAnnotationExport(json, file.name, { fileName: bagService.sourceFiles[0]?.name ?? fileName, timestamps }));
+        } catch (err) {
+            alert(`Error importing annotations: ${(err as Error).message}`);
+        }
+    };
+
+    // Replace the annotations with imported ones and return what was set
+    const applyAnnotations = (label: string, result: AnnotationImport): [SubtaskAnnotation[], ContactAnnotation[]] => {
+        const next: Annotations = {
+            subtasks: result.subtasks.map(s => ({ ...s, id: generateUniqueId() })),
+            contacts: result.contacts.map(c => ({ ...c, id: generateUniqueId() }))
+        };
+        commitEdit(label, next);
+        setSelectedSubtaskId(null);
+        setSelectedContactId(null);
+        return [next.subtasks, next.contacts];
+    };
+
+    const applyAnnotationImport = (result: AnnotationImport) => {
+        applyAnnotations('Import annotations', result);
+        setAnnotationImport(null);
+    };
+
+    const handleSessionRestore = (restore: boolean) => {
+        if (!sessionRestore) return;
+        const kept = restore ? applyAnnotations('Restore session', sessionRestore.result) : [subtasks, contacts];
+        setAutosave({ ...sessionRestore.target, baseline: JSON.stringify(kept) });
+        setSessionRestore(null);
+    };
+
+    const handleSavedSessionRestore = (session: SavedSession) => {
+        setIsSessionsOpen(false);
+        setAnnotationImport(readAnnotationExport(session.annotations, `Saved ${new Date(session.savedAt).toLocaleString()}`, { fileName: bagService.sourceFiles[0]?.name ?? fileName, timestamps }));
+    };
+
+    // Autosave: the latest annotations are written shortly after each edit, and at once when
+    // the page is hidden or another recording is loaded
+    const flushAutosave = useCallback(() => {
+        if (autosaveTimerRef.current !== null) {
+            clearTimeout(autosaveTimerRef.current);
+            autosaveTimerRef.current = null;
+        }
+        const session = pendingSessionRef.current;
+        pendingSessionRef.current = null;
+        if (session) saveSession(session).catch(err => console.warn('Autosave failed:', err));
+    }, []);
+
+    useEffect(() => {
+        if (!autosave || JSON.stringify([subtasks, contacts]) === autosave.baseline) return;
+        pendingSessionRef.current = {
+            key: autosave.key,
+            fileName: autosave.fileName,
+            fileSize: autosave.fileSize,
+            savedAt: Date.now(),
+            annotations: snapshotAnnotations(autosave.fileName, timestamps, { subtasks, contacts })
+        };
+        autosaveTimerRef.current ??= window.setTimeout(flushAutosave, AUTOSAVE_DELAY_MS);
+    }, [autosave, subtasks, contacts, timestamps, flushAutosave]);
+
+    useEffect(() => {
+        window.addEventListener('pagehide', flushAutosave);
+        return () => window.removeEventListener('pagehide', flushAutosave);
+    }, [flushAutosave]);
+
     // 2. Playback System
+    // Play at the recording's own frame spacing (median, so master-topic jitter doesn't matter)
+    const frameIntervalMs = useMemo(() => {
+        if (timestamps.length < 2) return 33;
+        const diffs = timestamps.slice(1).map((t, i) => t - timestamps[i]).sort((a, b) => a - b);
+        return Math.max(1, diffs[Math.floor(diffs.length / 2)]);
+    }, [timestamps]);
+
     const fetchFrame = useCallback(async (idx: number) => {
+        const direction = idx >= lastFetchedIndexRef.current ? 1 : -1;
+        lastFetchedIndexRef.current = idx;
+        // Also aborts decodes of earlier seeks that are no longer ahead of the playhead
+        bagService.prefetch(idx, direction);
+
         const frame = await bagService.getFrameAt(idx);
-        if (frame) setDisplayedFrame(frame);
+        // Skip frames a later seek has already replaced
+        if (frame && lastFetchedIndexRef.current === idx) setDisplayedFrame(frame);
+        // Index-only loads fill joint data in as frames are visited
+        setJointHistory(bagService.jointHistory);
     }, [bagService]);
 
     const togglePlayback = () => {
@@ -345,15 +603,17 @@ const AnnotationPage: React.FC = () => {
                         return prev;
                     }
                     const next = prev + 1;
+                    // Hold on a frame still decoding rather than skip it
+                    if (bagService.isDecoding(next)) return prev;
                     fetchFrame(next);
                     return next;
                 });
-            }, 33);
+            }, frameIntervalMs);
         } else if (playbackInterval.current) {
             clearInterval(playbackInterval.current);
         }
         return () => { if (playbackInterval.current) clearInterval(playbackInterval.current); };
-    }, [isPlaying, timestamps.length, fetchFrame]);
+    }, [isPlaying, timestamps.length, fetchFrame, frameIntervalMs, bagService]);
 
     useEffect(() => {
         if (!isPlaying) fetchFrame(currentFrameIndex);
@@ -392,9 +652,49 @@ const AnnotationPage: React.FC = () => {
 
     // 4. Annotation Logic (Subtasks & Contacts)
 
+    // --- Edit History ---
+    const recordEdit = useCallback((label: string, before: Annotations, after: Annotations, group?: string) => {
+        history.record(label, before, after, group);
+        setHistoryVersion(v => v + 1);
+    }, [history]);
+
+    // Every edit to subtasks or contacts goes through here, so it can be undone
+    const commitEdit = (label: string, next: Partial<Annotations>, group?: string) => {
+        const before: Annotations = { subtasks, contacts };
+        const after: Annotations = { ...before, ...next };
+        recordEdit(label, before, after, group);
+        setSubtasks(after.subtasks);
+        setContacts(after.contacts);
+    };
+
+    // Show a state from the history; a selection it no longer contains is dropped
+    const applyHistoryState = useCallback((state: Annotations | undefined) => {
+        if (!state) return;
+        setSubtasks(state.subtasks);
+        setContacts(state.contacts);
+        setSelectedSubtaskId(id => id && state.subtasks.some(s => s.id === id) ? id : null);
+        setSelectedContactId(id => id && state.contacts.some(c => c.id === id) ? id : null);
+        setHistoryVersion(v => v + 1);
+    }, []);
+
+    const handleUndo = useCallback(() => applyHistoryState(history.undo()), [history, applyHistoryState]);
+    const handleRedo = useCallback(() => applyHistoryState(history.redo()), [history, applyHistoryState]);
+
+    // Undo or redo several steps at once, to the state after `past[position - 1]` (0 is as loaded)
+    const jumpToHistory = (position: number) => {
+        let state: Annotations | undefined;
+        for (let offset = position - history.entries.past.length; offset < 0; offset++) state = history.undo();
+        for (let offset = position - history.entries.past.length; offset > 0; offset--) state = history.redo();
+        applyHistoryState(state);
+    };
+
     // --- Subtask ---
     const handleSubtaskChange = (val: string) => {
-        setSubtasks(prev => prev.map(s => s.id === selectedSubtaskId ? { ...s, prompt: val } : s));
+        commitEdit('Edit prompt', { subtasks: subtasks.map(s => s.id === selectedSubtaskId ? { ...s, prompt: val } : s) }, `prompt:${selectedSubtaskId}`);
+    };
+
+    const handleQualityChange = (quality: SubtaskAnnotation['quality']) => {
+        commitEdit(quality ? `Mark ${quality}` : 'Clear quality', { subtasks: subtasks.map(s => s.id === selectedSubtaskId ? { ...s, quality } : s) });
     };
 
     const updateGenPrompt = (k: string, v: string) => {
@@ -423,9 +723,9 @@ const AnnotationPage: React.FC = () => {
             // Merge next into current (extend end)
             newList[index] = { ...current, end: next.end };
             newList.splice(index + 1, 1); // Remove next
-        }
+        } else return;
 
-        setSubtasks(newList);
+        commitEdit(direction === 'prev' ? 'Merge with previous' : 'Merge with next', { subtasks: newList });
     };
 
     const handleSubtaskContextMenu = (e: React.MouseEvent) => {
@@ -439,7 +739,7 @@ const AnnotationPage: React.FC = () => {
             const newR = { ...old, id: generateUniqueId(), start: idx };
             const list = [...subtasks];
             list.splice(target, 1, newL, newR);
-            setSubtasks(list);
+            commitEdit('Split subtask', { subtasks: list });
         }
     };
 
@@ -450,7 +750,7 @@ const AnnotationPage: React.FC = () => {
         let end = Math.max(pendingContactStart, endIndex);
         if (end - start < MIN_CONTACT_FRAMES) end = Math.min(timestamps.length - 1, start + MIN_CONTACT_FRAMES);
 
-        setContacts([...contacts, { id: generateUniqueId(), username: 'local', start, end }]);
+        commitEdit('Add contact', { contacts: [...contacts, { id: generateUniqueId(), username: 'local', start, end }] });
         setPendingContactStart(null);
     };
 
@@ -477,25 +777,33 @@ const AnnotationPage: React.FC = () => {
 
     useEffect(() => {
         const handleKeyDown = (e: KeyboardEvent) => {
-            // Only trigger if a contact is selected and we are not typing in an input
-            if ((e.key === 'Delete' || e.key === 'Backspace') && selectedContactId) {
-                const activeElement = document.activeElement;
-                const isInput = activeElement?.tagName === 'INPUT' || activeElement?.tagName === 'TEXTAREA';
+            if (isLoadingBag) return;
+            // Fields keep their own delete and undo while typing
+            const activeElement = document.activeElement;
+            const isInput = activeElement?.tagName === 'INPUT' || activeElement?.tagName === 'TEXTAREA' || activeElement?.tagName === 'SELECT';
+            if (isInput) return;
 
-                if (!isInput) {
-                    handleDeleteContact();
-                }
+            if ((e.key === 'Delete' || e.key === 'Backspace') && selectedContactId) {
+                handleDeleteContact();
+            } else if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'z') {
+                e.preventDefault();
+                if (e.shiftKey) handleRedo();
+                else handleUndo();
+            } else if (e.ctrlKey && e.key.toLowerCase() === 'y') {
+                e.preventDefault();
+                handleRedo();
             }
         };
 
         window.addEventListener('keydown', handleKeyDown);
         return () => window.removeEventListener('keydown', handleKeyDown);
-    }, [selectedContactId]); // Re-bind when selection changes
+    }); // Re-bound every render, so deletes see the current contacts
 
     // --- Contact Dragging/Resizing Logic ---
     const handleMouseDownOnHandle = (e: React.MouseEvent, type: 'contact', id: string, edge: 'start' | 'end') => {
         e.stopPropagation(); e.preventDefault();
-        setDraggingState({ type, id, edge });
+        history.closeGroup();
+        setDraggingState({ type, id, edge, before: { subtasks, contacts } });
     };
 
     // Global Drag Effect for Timeline
@@ -508,7 +816,8 @@ const AnnotationPage: React.FC = () => {
             const clampedIndex = Math.max(0, Math.min(timestamps.length - 1, newIndex));
 
             if (draggingState.type === 'contact') {
-                setContacts(prev => prev.map(c => {
+                // From the contacts as the drag started; only the dragged edge moves
+                const next = draggingState.before.contacts.map(c => {
                     if (c.id !== draggingState.id) return c;
                     const newC = { ...c };
                     if (draggingState.edge === 'start') {
@@ -517,12 +826,19 @@ const AnnotationPage: React.FC = () => {
                         newC.end = Math.max(clampedIndex, c.start + MIN_CONTACT_FRAMES);
                     }
                     return newC;
-                }));
+                });
+                dragResultRef.current = next;
+                setContacts(next);
             }
         };
 
         const handleGlobalMouseUp = () => {
-            if (draggingState) setDraggingState(null);
+            if (!draggingState) return;
+            if (dragResultRef.current) {
+                recordEdit('Resize contact', draggingState.before, { ...draggingState.before, contacts: dragResultRef.current });
+                dragResultRef.current = null;
+            }
+            setDraggingState(null);
         };
 
         if (draggingState) {
@@ -533,11 +849,11 @@ const AnnotationPage: React.FC = () => {
             window.removeEventListener('mousemove', handleGlobalMouseMove);
             window.removeEventListener('mouseup', handleGlobalMouseUp);
         };
-    }, [draggingState, timestamps]);
+    }, [draggingState, timestamps, recordEdit]);
 
     const handleDeleteContact = () => {
         if (!selectedContactId) return;
-        setContacts(prev => prev.filter(c => c.id !== selectedContactId));
+        commitEdit('Delete contact', { contacts: contacts.filter(c => c.id !== selectedContactId) });
         setSelectedContactId(null);
     };
 
@@ -593,14 +909,71 @@ const AnnotationPage: React.FC = () => {
         }
     };
 
+    // --- Forward Kinematics ---
+    // Index-only loads recompute as joint windows fill in
+    const trajectories = useMemo(() => {
+        const mapJoints = compileJointMapping(urdfConfig.mappingCode);
+        if (!fkRobot || !mapJoints || trailLinks.length === 0 || jointHistory.isEmpty) return [];
+        return computeLinkTrajectories(fkRobot, trailLinks, jointHistory, mapJoints);
+    }, [fkRobot, trailLinks, jointHistory, urdfConfig.mappingCode]);
+
+    // The same links for dataset export, which runs FK itself once each episode's joints have loaded
+    const endEffectorExport = useMemo(() => {
+        const mapJoints = compileJointMapping(urdfConfig.mappingCode);
+        if (!fkRobot || !mapJoints || trailLinks.length === 0) return null;
+        return { robot: fkRobot, links: trailLinks, mapJoints };
+    }, [fkRobot, trailLinks, urdfConfig.mappingCode]);
+
+    const fkSignals = useMemo(() => new Map(trajectories.flatMap(t => Array.from(trajectorySignals(t, timestamps)))), [trajectories, timestamps]);
+
+    // Robot links on the displayed frame, for the camera overlays
+    const currentLinkPoses = useMemo(() => {
+        const mapJoints = compileJointMapping(urdfConfig.mappingCode);
+        if (!fkRobot || !mapJoints || !displayedFrame) return {};
+        return linkPosesAt(fkRobot, displayedFrame.jointStateMap, mapJoints);
+    }, [fkRobot, displayedFrame, urdfConfig.mappingCode]);
+
+    const calibrationFor = (topic: string): CameraCalibration =>
+        cameraCalibration[topic] ?? defaultCalibration(topic, Object.keys(bagService.cameraInfos), bagService.cameraFrames[topic] ?? '');
+
+    const handleCalibrationSave = (topic: string, calibration: CameraCalibration) => {
+        const next = { ...cameraCalibration, [topic]: calibration };
+        setCameraCalibration(next);
+        localStorage.setItem(CAMERA_CALIBRATION_STORAGE_KEY, JSON.stringify(next));
+    };
+
+    const projectionFor = (topic: string): ProjectedOverlay | null => {
+        const calibration = calibrationFor(topic);
+        const camera = bagService.cameraInfos[calibration.infoTopic];
+        if (!calibration.showOverlay || !camera || !fkRobot || !displayedFrame) return null;
+
+        // The camera pose in the robot's root frame: FK for a link, TF otherwise
+        let cameraPose = currentLinkPoses[calibration.frame]?.pose ?? null;
+        if (!cameraPose) {
+            const { transforms } = bagService;
+            const robotPose = transforms.lookup(fkRobot.urdfName, displayedFrame.timestamp);
+            const framePose = transforms.lookup(calibration.frame, displayedFrame.timestamp);
+            if (!robotPose || !framePose || transforms.rootOf(fkRobot.urdfName) !== transforms.rootOf(calibration.frame)) return null;
+            cameraPose = compose(invert(robotPose), framePose);
+        }
+        return projectRobot(camera, calibration, cameraPose, currentLinkPoses, trajectories.map(t => t.link));
+    };
+
+    const projections = Object.fromEntries(orderedImageTopics.map(topic => [topic, projectionFor(topic)]));
+    const tipColors = Object.fromEntries(trajectories.map((t, i) => [t.link, TRAIL_COLORS[i % TRAIL_COLORS.length]]));
+
+    const handleTrailLinksChange = (links: string[]) => {
+        setTrailLinks(links);
+        localStorage.setItem(TRAIL_LINKS_STORAGE_KEY, JSON.stringify(links));
+    };
+
     // --- Chart Data & Options ---
     const plotData = useMemo(() => {
-        if (historicalJointData.size === 0 || availableJointNames.length === 0) {
+        if ((jointHistory.isEmpty || availableJointNames.length === 0) && selectedSignals.length === 0) {
             return { labels: [], datasets: [] };
         }
 
-        const indices = Array.from(historicalJointData.keys()).sort((a, b) => a - b);
-        const labels = indices.map(i => formatTime(timestamps[i] - timestamps[0]));
+        const labels = timestamps.map(t => formatTime(t - timestamps[0]));
 
         const colors = [
             '#22d3ee', '#38bdf8', '#60a5fa', '#818cf8', '#a78bfa', '#c084fc',
@@ -610,21 +983,8 @@ const AnnotationPage: React.FC = () => {
 
         const datasets = selectedJointsToChart.map((uniqueId, i) => ({
             label: uniqueId,
-            data: indices.map(idx => {
-                const frameData = historicalJointData.get(idx);
-                if (!frameData) return null;
-
-                for (const topic of Object.keys(frameData)) {
-                    const msg = frameData[topic];
-
-                    const pos = msg.name.findIndex(rawName => `${topic}/${rawName}` === uniqueId);
-
-                    if (pos !== -1 && msg[selectedJointDataType]) {
-                        return msg[selectedJointDataType][pos];
-                    }
-                }
-                return null;
-            }),
+            // NaN leaves a gap, like the missing samples it stands for
+            data: Array.from(jointHistory.series(uniqueId, selectedJointDataType) ?? []),
             borderColor: colors[i % colors.length],
             backgroundColor: colors[i % colors.length],
             pointRadius: 0,
@@ -632,8 +992,31 @@ const AnnotationPage: React.FC = () => {
             tension: 0.1
         }));
 
-        return { labels, datasets };
-    }, [historicalJointData, selectedJointsToChart, selectedJointDataType, timestamps]);
+        // Field paths keep their own units, dashed to set them apart from joints
+        const signalColors = ['#fbbf24', '#f97316', '#84cc16', '#f43f5e', '#eab308', '#14b8a6'];
+        const signalDatasets = selectedSignals.filter(path => fkSignals.has(path) || signalData.has(path)).map((path, i) => ({
+            label: path,
+            data: Array.from(fkSignals.get(path) ?? signalData.get(path)!),
+            borderColor: signalColors[i % signalColors.length],
+            backgroundColor: signalColors[i % signalColors.length],
+            pointRadius: 0,
+            borderWidth: 1.2,
+            tension: 0.1,
+            borderDash: [4, 2]
+        }));
+
+        return { labels, datasets: [...datasets, ...signalDatasets] };
+    }, [jointHistory, selectedJointsToChart, selectedJointDataType, timestamps, selectedSignals, signalData, fkSignals]);
+
+    const handleAddSignal = async (path: string) => {
+        if (fkSignals.has(path)) {
+            setSelectedSignals(prev => [...prev, path]);
+            return;
+        }
+        await bagService.loadSignals([path]);
+        setSignalData(new Map(bagService.signals));
+        setSelectedSignals(prev => [...prev, path]);
+    };
 
     const plotOptions = useMemo<ChartOptions<'line'>>(() => {
         return {
@@ -682,7 +1065,20 @@ const AnnotationPage: React.FC = () => {
             {isDragOver && (
                 <div className="absolute inset-0 z-[100] bg-cyan-900/40 backdrop-blur-sm border-4 border-cyan-500 border-dashed m-6 rounded-2xl flex flex-col items-center justify-center pointer-events-none shadow-[0_0_100px_rgba(6,182,212,0.2)]">
                     <div className="text-8xl mb-4 animate-bounce">📂</div>
-                    <h2 className="text-4xl font-bold text-cyan-400 tracking-widest">DROP BAG FILE HERE</h2>
+                    <h2 className="text-4xl font-bold text-cyan-400 tracking-widest">DROP RECORDING HERE</h2>
+                </div>
+            )}
+
+            {/* Loading Overlay: covers the previous recording too, whose data is gone once a load starts */}
+            {isLoadingBag && (
+                <div className="absolute inset-0 bg-black/90 z-[90] flex flex-col items-center justify-center backdrop-blur-sm">
+                    <div className="w-12 h-12 border-4 border-t-transparent border-cyan-500 rounded-full animate-spin mb-4"></div>
+                    <span className="text-cyan-400 font-mono tracking-widest text-sm animate-pulse">{loadingMessage}</span>
+                    <div className="w-64 h-1.5 mt-4 bg-gray-800 rounded-full overflow-hidden">
+                        <div className="h-full bg-cyan-500 transition-[width] duration-200" style={{ width: `${loadingPercent}%` }} />
+                    </div>
+                    <span className="text-[10px] text-gray-500 mt-1 tabular-nums">{loadingPercent}%</span>
+                    <button onClick={() => loadAbortRef.current?.abort()} className="mt-4 px-4 py-1.5 rounded border border-gray-700 bg-gray-900 text-[10px] font-bold uppercase tracking-wider text-gray-400 hover:text-white hover:border-gray-500 transition-colors">Cancel</button>
                 </div>
             )}
 
@@ -692,29 +1088,66 @@ const AnnotationPage: React.FC = () => {
                     <div className="w-2.5 h-2.5 rounded-full bg-cyan-500 shadow-[0_0_10px_rgba(6,182,212,0.8)] animate-pulse"></div>
                     <span className="font-bold text-lg tracking-wider text-gray-100">ROS<span className="text-cyan-500">ANNOTATOR</span></span>
                     {fileName && <span className="ml-4 text-xs font-medium text-gray-400 bg-gray-900 px-3 py-1 rounded-full border border-gray-800">{fileName}</span>}
+                    {isFileLoaded && bagService.indexOnly && <span className="ml-2 text-[10px] font-bold text-amber-400/80 bg-amber-900/20 px-2 py-0.5 rounded border border-amber-800/50" title="Loaded from the bag index. Joint data fills in as you visit the timeline; task segments are generated from the Segments dialog.">INDEXED</span>}
                 </div>
                 <div className="flex gap-3">
+                    <button onClick={() => setIsSyncOpen(true)} className="flex items-center gap-2 px-3 py-1.5 bg-gray-800 hover:bg-gray-700 text-gray-300 text-xs font-bold uppercase tracking-wider rounded border border-gray-700" title="Timeline sync policy">
+                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>
+                        Sync <span className="normal-case font-normal text-gray-500 tracking-normal">{describeSync(syncOptions)}</span>
+                    </button>
+                    <button onClick={() => setIsSegmentationOpen(true)} className="flex items-center gap-2 px-3 py-1.5 bg-gray-800 hover:bg-gray-700 text-gray-300 text-xs font-bold uppercase tracking-wider rounded border border-gray-700" title="Auto-segmentation from a task-state topic">
+                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h4v12H4zM10 6h4v12h-4zM16 6h4v12h-4z" /></svg>
+                        Segments
+                    </button>
                     <button onClick={() => setIsSettingsOpen(true)} className="flex items-center gap-2 px-3 py-1.5 bg-gray-800 hover:bg-gray-700 text-gray-300 text-xs font-bold uppercase tracking-wider rounded border border-gray-700">
                         <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" /><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" /></svg>
                         Config
                     </button>
+                    {isFileLoaded && (
+                        <button onClick={() => setIsDiagnosticsOpen(true)} className={`flex items-center gap-2 px-3 py-1.5 bg-gray-800 hover:bg-gray-700 text-xs font-bold uppercase tracking-wider rounded border border-gray-700 ${bagService.diagnostics.issues.length > 0 ? 'text-rose-300' : 'text-gray-300'}`} title="Topic rates, gaps and missing topics">
+                            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 12h4l3-8 4 16 3-8h4" /></svg>
+                            Health {bagService.diagnostics.issues.length > 0 && <span className="px-1.5 rounded-full bg-rose-900/50 border border-rose-700/60 text-[10px]">{bagService.diagnostics.issues.length}</span>}
+                        </button>
+                    )}
+                    <button onClick={() => setIsSessionsOpen(true)} className="flex items-center gap-2 px-3 py-1.5 bg-gray-800 hover:bg-gray-700 text-cyan-400 text-xs font-bold uppercase tracking-wider rounded border border-gray-700 transition-all hover:border-cyan-500/50 hover:shadow-[0_0_15px_rgba(6,182,212,0.1)]" title="Annotations autosaved in this browser">
+                        <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 7v10c0 2 3.6 3 8 3s8-1 8-3V7M4 7c0 2 3.6 3 8 3s8-1 8-3M4 7c0-2 3.6-3 8-3s8 1 8 3m0 5c0 2-3.6 3-8 3s-8-1-8-3" /></svg>
+                        Sessions
+                    </button>
+                    {isFileLoaded && (
+                        <button onClick={() => importInputRef.current?.click()} className="flex items-center gap-2 px-3 py-1.5 bg-gray-800 hover:bg-gray-700 text-cyan-400 text-xs font-bold uppercase tracking-wider rounded border border-gray-700 transition-all hover:border-cyan-500/50 hover:shadow-[0_0_15px_rgba(6,182,212,0.1)]" title="Resume from a previously exported annotation JSON">
+                            <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" /></svg>
+                            Import JSON
+                        </button>
+                    )}
+                    <input type="file" ref={importInputRef} accept=".json,application/json" className="hidden" onChange={(e) => { if (e.target.files?.[0]) handleImportJSON(e.target.files[0]); e.target.value = ''; }} />
                     {isFileLoaded && (
                         <button onClick={handleExportJSON} className="flex items-center gap-2 px-3 py-1.5 bg-gray-800 hover:bg-gray-700 text-cyan-400 text-xs font-bold uppercase tracking-wider rounded border border-gray-700 transition-all hover:border-cyan-500/50 hover:shadow-[0_0_15px_rgba(6,182,212,0.1)]">
                             <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" /></svg>
                             Export JSON
                         </button>
                     )}
+                    {isFileLoaded && (
+                        <button onClick={() => { setIsPlaying(false); setIsDatasetExportOpen(true); }} className="flex items-center gap-2 px-3 py-1.5 bg-gray-800 hover:bg-gray-700 text-cyan-400 text-xs font-bold uppercase tracking-wider rounded border border-gray-700 transition-all hover:border-cyan-500/50 hover:shadow-[0_0_15px_rgba(6,182,212,0.1)]" title="Frames, joints and labels as ALOHA HDF5 or a LeRobot dataset">
+                            <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" /></svg>
+                            Export Dataset
+                        </button>
+                    )}
+                    {isFileLoaded && (
+                        <button onClick={() => { setIsPlaying(false); setIsBagExportOpen(true); }} className="flex items-center gap-2 px-3 py-1.5 bg-gray-800 hover:bg-gray-700 text-cyan-400 text-xs font-bold uppercase tracking-wider rounded border border-gray-700 transition-all hover:border-cyan-500/50 hover:shadow-[0_0_15px_rgba(6,182,212,0.1)]" title="A ROS 1 bag with only the chosen ranges and topics">
+                            <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" /></svg>
+                            Export Bag
+                        </button>
+                    )}
                     {!isFileLoaded && <button onClick={() => fileInputRef.current?.click()} className="text-xs bg-cyan-600 hover:bg-cyan-500 text-white px-4 py-1.5 rounded font-bold transition-colors shadow-lg shadow-cyan-900/20">Select File</button>}
-                    <input type="file" ref={fileInputRef} accept=".bag" className="hidden" onChange={(e) => e.target.files?.[0] && loadBagFile(e.target.files[0])} />
+                    <input type="file" ref={fileInputRef} accept={SUPPORTED_EXTENSIONS.join(',')} multiple className="hidden" onChange={(e) => e.target.files && loadBagFiles(sortRecordingFiles(Array.from(e.target.files)))} />
                 </div>
             </header>
 
             {!isFileLoaded ? (
                 <div className="flex-1 flex flex-col items-center justify-center relative bg-gradient-to-b from-[#050505] to-[#0a0a0a]">
-                    {isLoadingBag && <div className="absolute inset-0 bg-black/90 z-50 flex flex-col items-center justify-center backdrop-blur-sm"><div className="w-12 h-12 border-4 border-t-transparent border-cyan-500 rounded-full animate-spin mb-4"></div><span className="text-cyan-400 font-mono tracking-widest text-sm animate-pulse">{loadingMessage}</span></div>}
                     <div className="text-center opacity-30 space-y-4 hover:opacity-50 transition-opacity duration-500">
                         <svg className="w-24 h-24 mx-auto text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1} d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12" /></svg>
-                        <p className="text-xl font-light tracking-wide text-gray-400">Drag & Drop .bag file to begin</p>
+                        <p className="text-xl font-light tracking-wide text-gray-400">Drag & Drop .bag, .mcap or .db3 files (or a folder of split bags) to begin</p>
                     </div>
                 </div>
             ) : (
@@ -731,7 +1164,41 @@ const AnnotationPage: React.FC = () => {
                                         <div className="absolute top-2 left-2 px-2 py-1 bg-black/80 backdrop-blur text-[10px] font-bold text-cyan-400 border border-white/5 rounded shadow-lg z-10 pointer-events-none select-none tracking-tight">
                                             {topicMetadata[topic]?.title || topic}
                                         </div>
-                                        <img src={displayedFrame?.images[topic] || PLACEHOLDER_IMG} className="w-full h-full object-contain select-none" alt={topic} />
+                                        {displayedFrame?.depth[topic] && (
+                                            <button onClick={() => setDepthSettingsTopic(topic)} title="Depth range and colormap"
+                                                className="absolute top-2 right-2 px-2 py-1 bg-black/80 backdrop-blur text-[10px] font-mono text-gray-300 hover:text-cyan-300 border border-white/5 rounded shadow-lg z-10">
+                                                {describeDepthDisplay(depthDisplay[topic] ?? DEFAULT_DEPTH_DISPLAY)}
+                                            </button>
+                                        )}
+                                        {fkRobot && Object.keys(bagService.cameraInfos).length > 0 && (
+                                            <div className="absolute bottom-2 left-2 flex bg-black/80 backdrop-blur text-[10px] font-mono border border-white/5 rounded shadow-lg z-10 overflow-hidden">
+                                                <button
+                                                    onClick={() => {
+                                                        const calibration = calibrationFor(topic);
+                                                        if (calibration.showOverlay || bagService.cameraInfos[calibration.infoTopic]) handleCalibrationSave(topic, { ...calibration, showOverlay: !calibration.showOverlay });
+                                                        else setCalibrationTopic(topic);
+                                                    }}
+                                                    title="Draw the gripper tips projected into this camera"
+                                                    className={`px-2 py-1 ${calibrationFor(topic).showOverlay ? 'text-pink-300' : 'text-gray-400 hover:text-white'}`}
+                                                >
+                                                    ◎ Robot
+                                                </button>
+                                                <button onClick={() => setCalibrationTopic(topic)} title="Camera info and frame" className="px-1.5 py-1 border-l border-white/5 text-gray-400 hover:text-white">⚙</button>
+                                            </div>
+                                        )}
+                                        {displayedFrame?.images[topic] ? (
+                                            <>
+                                                <FrameCanvas bitmap={displayedFrame.images[topic]} label={topic} depth={displayedFrame.depth[topic]} />
+                                                {projections[topic] && <ProjectionOverlay overlay={projections[topic]} tipColors={tipColors} />}
+                                            </>
+                                        ) : displayedFrame?.imageErrors[topic] ? (
+                                            <div className="w-full h-full flex flex-col items-center justify-center gap-1 p-4 bg-rose-950/20 text-center select-none">
+                                                <span className="text-xs font-bold text-rose-400 uppercase tracking-wider">Cannot display</span>
+                                                <span className="text-[10px] text-rose-300/80 font-mono break-all">{displayedFrame.imageErrors[topic]}</span>
+                                            </div>
+                                        ) : (
+                                            <img src={PLACEHOLDER_IMG} className="w-full h-full object-contain select-none" alt={topic} />
+                                        )}
                                     </div>
                                 ))}
                             </div>
@@ -743,6 +1210,15 @@ const AnnotationPage: React.FC = () => {
                                     <UrdfViewer
                                         jointData={displayedFrame?.jointStateMap || null}
                                         config={urdfConfig}
+                                        pointClouds={displayedFrame?.clouds}
+                                        transforms={bagService.transforms}
+                                        cameraFrames={bagService.cameraFrames}
+                                        timeMs={displayedFrame?.timestamp}
+                                        frameIndex={currentFrameIndex}
+                                        trails={trajectories}
+                                        trailLinks={trailLinks}
+                                        onTrailLinksChange={handleTrailLinksChange}
+                                        onRobotLoaded={setFkRobot}
                                     />
                                 </div>
                                 <div className="w-[67%] flex flex-col p-3 min-w-0">
@@ -816,11 +1292,21 @@ const AnnotationPage: React.FC = () => {
                                             </div>
                                         </div>
 
-                                        {/* Data Type Selector (Pos/Vel/Eff) */}
-                                        <div className="flex bg-gray-900 rounded-lg border border-gray-800 p-0.5">
-                                            {['position', 'velocity', 'effort'].map(t => (
-                                                <button key={t} onClick={() => setSelectedJointDataType(t as any)} className={`px-3 py-0.5 text-[10px] font-bold uppercase rounded-md transition-all ${selectedJointDataType === t ? 'bg-cyan-900/50 text-cyan-400 shadow-sm' : 'text-gray-600 hover:text-gray-400'}`}>{t}</button>
-                                            ))}
+                                        <div className="flex items-center gap-2 min-w-0 ml-2">
+                                            {/* Any numeric field, e.g. /ft_sensor.wrench.force.z */}
+                                            <FieldPathPicker
+                                                fieldPaths={[...fkSignals.keys(), ...fieldPaths]}
+                                                selected={selectedSignals}
+                                                onAdd={handleAddSignal}
+                                                onRemove={path => setSelectedSignals(prev => prev.filter(p => p !== path))}
+                                            />
+
+                                            {/* Data Type Selector (Pos/Vel/Eff) */}
+                                            <div className="flex bg-gray-900 rounded-lg border border-gray-800 p-0.5 shrink-0">
+                                                {JOINT_FIELDS.map(t => (
+                                                    <button key={t} onClick={() => setSelectedJointDataType(t)} className={`px-3 py-0.5 text-[10px] font-bold uppercase rounded-md transition-all ${selectedJointDataType === t ? 'bg-cyan-900/50 text-cyan-400 shadow-sm' : 'text-gray-600 hover:text-gray-400'}`}>{t}</button>
+                                                ))}
+                                            </div>
                                         </div>
                                     </div>
                                     <div className="flex-1 relative w-full h-full min-h-0"><Line data={plotData} options={plotOptions} /></div>
@@ -852,13 +1338,13 @@ const AnnotationPage: React.FC = () => {
                                             ))}
                                         </div>
 
-                                        <textarea value={subtasks.find(s => s.id === selectedSubtaskId)?.prompt || ''} onChange={e => handleSubtaskChange(e.target.value)} className="w-full h-24 bg-gray-900/50 border border-gray-700 rounded p-3 text-xs text-gray-200 resize-none outline-none focus:border-blue-500 focus:bg-gray-900 transition-all placeholder:text-gray-700" placeholder="Type prompt here..." />
+                                        <textarea value={subtasks.find(s => s.id === selectedSubtaskId)?.prompt || ''} onChange={e => handleSubtaskChange(e.target.value)} onBlur={() => history.closeGroup()} className="w-full h-24 bg-gray-900/50 border border-gray-700 rounded p-3 text-xs text-gray-200 resize-none outline-none focus:border-blue-500 focus:bg-gray-900 transition-all placeholder:text-gray-700" placeholder="Type prompt here..." />
 
                                         <div className="grid grid-cols-3 gap-2">
                                             {['good', 'bad', 'accident'].map(q => {
                                                 const isActive = subtasks.find(s => s.id === selectedSubtaskId)?.quality === q;
                                                 const color = q === 'good' ? 'emerald' : q === 'bad' ? 'rose' : 'amber';
-                                                return <button key={q} onClick={() => { const s = subtasks.find(x => x.id === selectedSubtaskId); if (s) setSubtasks(subtasks.map(x => x.id === s.id ? { ...x, quality: isActive ? null : q as any } : x)); }} className={`py-1.5 text-[10px] uppercase font-bold rounded border transition-all ${isActive ? `bg-${color}-500/10 text-${color}-400 border-${color}-500/50 shadow-[0_0_10px_rgba(0,0,0,0.3)]` : 'bg-gray-900 text-gray-600 border-gray-800 hover:border-gray-600 hover:text-gray-400'}`}>{q}</button>
+                                                return <button key={q} onClick={() => handleQualityChange(isActive ? null : q as SubtaskAnnotation['quality'])} className={`py-1.5 text-[10px] uppercase font-bold rounded border transition-all ${isActive ? `bg-${color}-500/10 text-${color}-400 border-${color}-500/50 shadow-[0_0_10px_rgba(0,0,0,0.3)]` : 'bg-gray-900 text-gray-600 border-gray-800 hover:border-gray-600 hover:text-gray-400'}`}>{q}</button>
                                             })}
                                         </div>
 
@@ -897,6 +1383,32 @@ const AnnotationPage: React.FC = () => {
                                     </div>
                                 )}
                             </div>
+
+                            {/* History */}
+                            <div className="mt-auto p-4 border-t border-gray-800">
+                                <div className="flex items-center justify-between mb-2">
+                                    <h3 className="text-[10px] font-bold text-gray-500 uppercase tracking-[0.2em]">History</h3>
+                                    <div className="flex gap-1">
+                                        <button onClick={handleUndo} disabled={!history.canUndo} className="px-2 py-0.5 rounded text-xs text-gray-400 hover:text-white hover:bg-gray-800 disabled:opacity-30 disabled:hover:bg-transparent transition-colors" title="Undo (Ctrl+Z)">↶</button>
+                                        <button onClick={handleRedo} disabled={!history.canRedo} className="px-2 py-0.5 rounded text-xs text-gray-400 hover:text-white hover:bg-gray-800 disabled:opacity-30 disabled:hover:bg-transparent transition-colors" title="Redo (Ctrl+Shift+Z)">↷</button>
+                                    </div>
+                                </div>
+                                <div className="max-h-36 overflow-y-auto flex flex-col">
+                                    {/* Newest at the top; undone steps stay listed, dimmed, until a new edit replaces them */}
+                                    {[{ label: 'Loaded' }, ...history.entries.past, ...history.entries.future].map((entry, position) => ({ label: entry.label, position })).reverse().map(({ label, position }) => {
+                                        const current = history.entries.past.length;
+                                        return (
+                                            <button
+                                                key={position}
+                                                onClick={() => jumpToHistory(position)}
+                                                className={`text-left px-2 py-0.5 rounded text-[11px] truncate transition-colors ${position === current ? 'bg-gray-800 text-cyan-400' : position > current ? 'text-gray-600 hover:bg-gray-900' : 'text-gray-400 hover:bg-gray-900'}`}
+                                            >
+                                                {label}
+                                            </button>
+                                        );
+                                    })}
+                                </div>
+                            </div>
                         </div>
                     </div>
 
@@ -1050,6 +1562,85 @@ const AnnotationPage: React.FC = () => {
                 </>
             )}
 
+            <SyncSettingsDialog
+                isOpen={isSyncOpen}
+                onClose={() => setIsSyncOpen(false)}
+                options={syncOptions}
+                onSave={handleSyncSave}
+                bagService={bagService}
+                isFileLoaded={isFileLoaded}
+            />
+
+            <DiagnosticsDialog
+                isOpen={isDiagnosticsOpen}
+                onClose={() => setIsDiagnosticsOpen(false)}
+                diagnostics={bagService.diagnostics}
+                onSeek={frame => { setCurrentFrameIndex(frame); setIsPlaying(false); }}
+            />
+
+            <DatasetExportDialog
+                isOpen={isDatasetExportOpen}
+                onClose={() => setIsDatasetExportOpen(false)}
+                bagService={bagService}
+                imageTopics={orderedImageTopics}
+                subtasks={subtasks}
+                contacts={contacts}
+                endEffector={endEffectorExport}
+            />
+
+            <AnnotationImportDialog
+                result={annotationImport}
+                onClose={() => setAnnotationImport(null)}
+                onApply={applyAnnotationImport}
+            />
+
+            <AnnotationImportDialog
+                mode="restore"
+                result={sessionRestore?.result ?? null}
+                onClose={() => handleSessionRestore(false)}
+                onApply={() => handleSessionRestore(true)}
+            />
+
+            <SessionsDialog
+                isOpen={isSessionsOpen}
+                onClose={() => setIsSessionsOpen(false)}
+                currentKey={autosave?.key ?? null}
+                onRestore={handleSavedSessionRestore}
+            />
+
+            <BagExportDialog
+                isOpen={isBagExportOpen}
+                onClose={() => setIsBagExportOpen(false)}
+                bagService={bagService}
+                subtasks={subtasks}
+                contacts={contacts}
+            />
+
+            <DepthSettingsDialog
+                topic={depthSettingsTopic}
+                display={(depthSettingsTopic && depthDisplay[depthSettingsTopic]) || DEFAULT_DEPTH_DISPLAY}
+                onClose={() => setDepthSettingsTopic(null)}
+                onSave={display => depthSettingsTopic && handleDepthDisplaySave(depthSettingsTopic, display)}
+            />
+
+            <CameraCalibrationDialog
+                topic={calibrationTopic}
+                calibration={calibrationTopic ? calibrationFor(calibrationTopic) : defaultCalibration('', [], '')}
+                cameraInfos={bagService.cameraInfos}
+                frames={Array.from(new Set([...Object.keys(currentLinkPoses), ...bagService.transforms.frameIds])).sort()}
+                onClose={() => setCalibrationTopic(null)}
+                onSave={calibration => calibrationTopic && handleCalibrationSave(calibrationTopic, calibration)}
+            />
+
+            <SegmentationSettingsDialog
+                isOpen={isSegmentationOpen}
+                onClose={() => setIsSegmentationOpen(false)}
+                config={segmentationConfig}
+                onSave={handleSegmentationSave}
+                bagService={bagService}
+                isFileLoaded={isFileLoaded}
+            />
+
             <UrdfSettingsDialog
                 isOpen={isSettingsOpen}
                 onClose={() => setIsSettingsOpen(false)}
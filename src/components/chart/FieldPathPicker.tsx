@@ -0,0 +1,60 @@
+import React, { useState } from 'react';
+import { parseFieldPath } from '../../services/FieldPaths';
+
+interface Props {
+    fieldPaths: string[]; // Suggestions from the recording's schemas
+    selected: string[];
+    onAdd: (path: string) => Promise<void>;
+    onRemove: (path: string) => void;
+}
+
+/** Free-text field path input (`/ft_sensor.wrench.force.z`) with suggestions, plus the plotted paths as chips. */
+export const FieldPathPicker: React.FC<Props> = ({ fieldPaths, selected, onAdd, onRemove }) => {
+    const [text, setText] = useState('');
+    const [error, setError] = useState('');
+    const [isBusy, setIsBusy] = useState(false);
+
+    const submit = async () => {
+        const path = text.trim();
+        if (!path || selected.includes(path)) return;
+        if (!parseFieldPath(path)) {
+            setError('Expected /topic.field.path');
+            return;
+        }
+        setIsBusy(true);
+        try {
+            await onAdd(path);
+            setText('');
+            setError('');
+        } catch (e) {
+            setError((e as Error).message);
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    return (
+        <div className="flex items-center gap-1 min-w-0">
+            {selected.map(path => (
+                <span key={path} title={path} className="shrink-0 flex items-center gap-1 px-2 py-0.5 text-[9px] border rounded bg-amber-900/30 border-amber-500/50 text-amber-300 whitespace-nowrap">
+                    {path.split('.').slice(-2).join('.')}
+                    <button onClick={() => onRemove(path)} className="text-amber-500/70 hover:text-white">✕</button>
+                </span>
+            ))}
+            <input
+                type="text"
+                list="field-path-options"
+                value={text}
+                disabled={isBusy}
+                onChange={e => { setText(e.target.value); setError(''); }}
+                onKeyDown={e => { if (e.key === 'Enter') submit(); }}
+                placeholder={isBusy ? 'Loading...' : '+ field path'}
+                title={error || 'Plot any numeric field, e.g. /ft_sensor.wrench.force.z'}
+                className={`w-44 bg-gray-900 border rounded px-2 py-0.5 text-[10px] text-gray-300 outline-none font-mono placeholder:text-gray-600 ${error ? 'border-rose-500/70' : 'border-gray-700 focus:border-amber-500'}`}
+            />
+            <datalist id="field-path-options">
+                {fieldPaths.filter(p => !selected.includes(p)).map(p => <option key={p} value={p} />)}
+            </datalist>
+        </div>
+    );
+};
@@ -0,0 +1,94 @@
+import React from 'react';
+import type { AnnotationImport } from '../../services/AnnotationImport';
+
+interface Props {
+    result: AnnotationImport | null; // Open while set
+    onClose: () => void;
+    onApply: (result: AnnotationImport) => void;
+    mode?: 'import' | 'restore'; // Restore offers the autosaved session of the loaded recording
+}
+
+const REMAP_TEXT: Record<AnnotationImport['remap'], string> = {
+    none: 'Frame indices are used as saved.',
+    timestamps: 'The frame timeline differs, so spans were moved to the frames nearest their saved times.',
+    estimated: 'The frame timeline differs and this file has no frame times, so spans were moved assuming evenly spaced frames from the same start. Check the boundaries.'
+};
+
+export const AnnotationImportDialog: React.FC<Props> = ({ result, onClose, onApply, mode = 'import' }) => {
+    if (result === null) return null;
+    const restore = mode === 'restore';
+    const mismatches = result.checks.filter(c => !c.ok).length;
+
+    return (
+        <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/80 backdrop-blur-sm">
+            <div className="bg-[#111] border border-gray-700 rounded-xl w-[560px] max-h-[90vh] flex flex-col shadow-2xl">
+
+                {/* Header */}
+                <div className="flex justify-between items-center p-4 border-b border-gray-800 shrink-0">
+                    <div className="min-w-0">
+                        <h2 className="text-lg font-bold text-gray-200">{restore ? 'Restore Session' : 'Import Annotations'}</h2>
+                        <p className="text-[10px] text-gray-500 font-mono truncate" title={result.fileName}>{result.fileName}</p>
+                    </div>
+                    <button onClick={onClose} className="text-gray-500 hover:text-white">✕</button>
+                </div>
+
+                <div className="p-6 space-y-6 overflow-y-auto">
+                    {/* Checks */}
+                    <div>
+                        <label className="block text-xs font-bold text-cyan-500 uppercase mb-2">Recording</label>
+                        <table className="w-full text-[11px] font-mono">
+                            <thead>
+                                <tr className="text-gray-500 text-left">
+                                    <th className="font-normal pb-1"></th>
+                                    <th className="font-normal pb-1">In file</th>
+                                    <th className="font-normal pb-1">Loaded</th>
+                                    <th className="pb-1"></th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {result.checks.map(check => (
+                                    <tr key={check.label} className={check.ok ? 'text-gray-300' : 'text-amber-400'}>
+                                        <td className="py-0.5 text-gray-500">{check.label}</td>
+                                        <td className="py-0.5 truncate max-w-[180px]" title={check.file}>{check.file}</td>
+                                        <td className="py-0.5 truncate max-w-[180px]" title={check.loaded}>{check.loaded}</td>
+                                        <td className="py-0.5 text-right">{check.ok ? '✓' : '✗'}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                        {mismatches > 0 && <p className="text-[10px] text-amber-400 mt-2">These annotations may have been made on another recording or with other sync settings.</p>}
+                        <p className="text-[10px] text-gray-500 mt-1">{REMAP_TEXT[result.remap]}</p>
+                    </div>
+
+                    {/* Result */}
+                    <div>
+                        <label className="block text-xs font-bold text-cyan-500 uppercase mb-2">Annotations</label>
+                        <p className="text-xs text-gray-300">
+                            {result.subtasks.length} subtask{result.subtasks.length === 1 ? '' : 's'}, {result.contacts.length} contact{result.contacts.length === 1 ? '' : 's'}
+                        </p>
+                        {result.notes.length > 0 && (
+                            <ul className="mt-2 max-h-40 overflow-y-auto border border-gray-800 rounded divide-y divide-gray-800">
+                                {result.notes.map((note, i) => <li key={i} className="px-3 py-1 text-[11px] text-amber-300">{note}</li>)}
+                            </ul>
+                        )}
+                    </div>
+                </div>
+
+                {/* Footer */}
+                <div className="p-4 border-t border-gray-800 flex items-center justify-between gap-3 bg-[#0e0e0e] rounded-b-xl shrink-0">
+                    <span className="text-[10px] text-gray-500">{restore ? 'Starting fresh replaces the saved session on the next edit.' : 'Replaces the current subtasks and contacts.'}</span>
+                    <div className="flex gap-3">
+                        <button onClick={onClose} className="px-4 py-2 rounded text-xs font-bold text-gray-300 hover:bg-gray-800 transition-colors">{restore ? 'Start Fresh' : 'Cancel'}</button>
+                        <button
+                            onClick={() => onApply(result)}
+                            disabled={result.subtasks.length === 0 && result.contacts.length === 0}
+                            className="px-6 py-2 rounded bg-cyan-600 hover:bg-cyan-500 disabled:opacity-40 disabled:hover:bg-cyan-600 text-white text-xs font-bold shadow-lg shadow-cyan-900/20 transition-colors"
+                        >
+                            {restore ? 'Restore' : 'Import'}
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
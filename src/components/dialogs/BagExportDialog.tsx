@@ -0,0 +1,172 @@
+import React, { useRef, useState } from 'react';
+import type { BagExportRequest, BagService, LoadProgress } from '../../services/BagService';
+import { scopeSegments, type ExportScope, type LabelSpan } from '../../services/DatasetExport';
+import { stripRecordingExtension } from '../../services/readers';
+import { ExportScopePicker } from './ExportScopePicker';
+
+type Subtask = LabelSpan & { id: string };
+
+interface Props {
+    isOpen: boolean;
+    onClose: () => void;
+    bagService: BagService;
+    subtasks: Subtask[];
+    contacts: LabelSpan[];
+}
+
+const inputClass = 'w-full bg-gray-900 border border-gray-700 rounded px-3 py-1.5 text-sm text-gray-300 focus:border-cyan-500 outline-none font-mono';
+
+export const BagExportDialog: React.FC<Props> = (props) => {
+    if (!props.isOpen) return null;
+    return <BagExportForm {...props} />;
+};
+
+// Mounted only while open, so the selection starts from the loaded recording each time
+const BagExportForm: React.FC<Props> = ({ onClose, bagService, subtasks, contacts }) => {
+    const allTopics = Object.keys(bagService.topicTypes).sort();
+    const { timestamps } = bagService;
+
+    const [scope, setScope] = useState<ExportScope>(() => ({ wholeRecording: subtasks.length === 0, subtaskIds: subtasks.map(s => s.id), goodOnly: false }));
+    const [topics, setTopics] = useState<string[]>(allTopics);
+    const [withAnnotations, setWithAnnotations] = useState(true);
+    const [annotationTopic, setAnnotationTopic] = useState('/annotations');
+    const [progress, setProgress] = useState<LoadProgress | null>(null);
+    const [error, setError] = useState('');
+    const abortRef = useRef<AbortController | null>(null);
+
+    const segments = scopeSegments(scope, subtasks, timestamps.length);
+    // A segment runs until the next frame, so the messages held on its last frame are kept
+    const ranges: BagExportRequest['ranges'] = scope.wholeRecording
+        ? [{ startFrame: -Infinity, endFrame: Infinity }]
+        : segments.map(s => ({ startFrame: s.start, endFrame: s.end + 1 }));
+
+    // One JSON message per subtask and contact, at its start (or the start of the range it is cut to)
+    const annotationMessages = () => {
+        const toSec = (frame: number) => timestamps[Math.min(frame, timestamps.length - 1)] / 1000;
+        const spans = [
+            ...subtasks.map(s => ({ span: s, text: { type: 'subtask', prompt: s.prompt ?? '', quality: s.quality ?? null } })),
+            ...contacts.map(c => ({ span: c, text: { type: 'contact' } }))
+        ];
+        return spans.flatMap(({ span, text }) => {
+            const range = ranges.find(r => span.start < r.endFrame && span.end >= r.startFrame);
+            if (!range) return [];
+            return [{ frame: Math.max(span.start, range.startFrame), text: JSON.stringify({ ...text, start: toSec(span.start), end: toSec(span.end) }) }];
+        });
+    };
+
+    const runExport = async () => {
+        const controller = new AbortController();
+        abortRef.current = controller;
+        setError('');
+        setProgress({ stage: 'Writing Bag...', percent: 0 });
+        try {
+            const bag = await bagService.exportBag({
+                ranges,
+                topics,
+                annotations: withAnnotations ? { topic: annotationTopic.trim(), messages: annotationMessages() } : null
+            }, setProgress, controller.signal);
+
+            download(bag, `${stripRecordingExtension(bagService.sourceFiles[0]?.name ?? 'recording')}_trimmed_${Date.now()}.bag`);
+            onClose();
+        } catch (e) {
+            if (!controller.signal.aborted) setError((e as Error).message);
+        } finally {
+            abortRef.current = null;
+            setProgress(null);
+        }
+    };
+
+    const annotationTopicTaken = allTopics.includes(annotationTopic.trim());
+    const isValid = bagService.canExportBag && ranges.length > 0 && (topics.length > 0 || withAnnotations)
+        && (!withAnnotations || (annotationTopic.trim().startsWith('/') && !annotationTopicTaken));
+    const isExporting = progress !== null;
+
+    return (
+        <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/80 backdrop-blur-sm">
+            <div className="bg-[#111] border border-gray-700 rounded-xl w-[560px] max-h-[90vh] flex flex-col shadow-2xl">
+
+                {/* Header */}
+                <div className="flex justify-between items-center p-4 border-b border-gray-800 shrink-0">
+                    <h2 className="text-lg font-bold text-gray-200">Export Bag</h2>
+                    <button onClick={() => { abortRef.current?.abort(); onClose(); }} className="text-gray-500 hover:text-white">✕</button>
+                </div>
+
+                <fieldset disabled={isExporting} className="p-6 space-y-6 overflow-y-auto">
+                    {!bagService.canExportBag && (
+                        <p className="text-xs text-amber-400">Only ROS 1 .bag recordings can be written back as a bag; messages are copied without re-encoding.</p>
+                    )}
+
+                    {/* Time Ranges */}
+                    <div>
+                        <label className="block text-xs font-bold text-cyan-500 uppercase mb-2">Time Ranges</label>
+                        <ExportScopePicker scope={scope} onChange={setScope} subtasks={subtasks} segmentCount={ranges.length} noun="range" />
+                    </div>
+
+                    {/* Topics */}
+                    <div>
+                        <div className="flex items-center justify-between mb-2">
+                            <label className="text-xs font-bold text-cyan-500 uppercase">Topics</label>
+                            <div className="flex gap-2 text-[10px] font-bold uppercase">
+                                <button onClick={() => setTopics(allTopics)} className="text-gray-400 hover:text-white">All</button>
+                                <button onClick={() => setTopics([])} className="text-gray-400 hover:text-white">None</button>
+                            </div>
+                        </div>
+                        <div className="max-h-48 overflow-y-auto border border-gray-800 rounded divide-y divide-gray-800">
+                            {allTopics.map(topic => (
+                                <label key={topic} className="flex items-center gap-2 px-3 py-1 text-[11px] cursor-pointer">
+                                    <input type="checkbox" checked={topics.includes(topic)} onChange={() => setTopics(topics.includes(topic) ? topics.filter(t => t !== topic) : [...topics, topic])} className="accent-cyan-500" />
+                                    <span className="flex-1 truncate font-mono text-gray-300">{topic}</span>
+                                    <span className="text-gray-600 font-mono">{bagService.topicTypes[topic]}</span>
+                                </label>
+                            ))}
+                        </div>
+                        <p className="text-[10px] text-gray-500 mt-1">Latched topics such as /tf_static keep their messages from before the first range.</p>
+                    </div>
+
+                    {/* Annotations */}
+                    <div>
+                        <label className="flex items-center gap-2 text-xs text-gray-300 cursor-pointer">
+                            <input type="checkbox" checked={withAnnotations} onChange={e => setWithAnnotations(e.target.checked)} className="accent-cyan-500" />
+                            Add subtasks and contacts as std_msgs/String JSON on
+                        </label>
+                        <input type="text" value={annotationTopic} onChange={e => setAnnotationTopic(e.target.value)} disabled={!withAnnotations} className={`${inputClass} mt-2`} />
+                        {withAnnotations && annotationTopicTaken && <p className="text-[10px] text-rose-300 mt-1">The recording already has this topic.</p>}
+                    </div>
+
+                    {error && <p className="text-xs text-rose-300 font-mono">{error}</p>}
+                </fieldset>
+
+                {/* Footer */}
+                <div className="p-4 border-t border-gray-800 flex items-center justify-end gap-3 bg-[#0e0e0e] rounded-b-xl shrink-0">
+                    {progress && (
+                        <div className="flex-1 flex items-center gap-3">
+                            <span className="text-[10px] text-gray-400 tabular-nums whitespace-nowrap">{progress.percent}%</span>
+                            <div className="flex-1 h-1.5 bg-gray-800 rounded-full overflow-hidden">
+                                <div className="h-full bg-cyan-500 transition-[width] duration-200" style={{ width: `${progress.percent}%` }} />
+                            </div>
+                        </div>
+                    )}
+                    {isExporting ? (
+                        <button onClick={() => abortRef.current?.abort()} className="px-4 py-2 rounded text-xs font-bold text-gray-300 hover:bg-gray-800 transition-colors">Cancel</button>
+                    ) : (
+                        <>
+                            <button onClick={onClose} className="px-4 py-2 rounded text-xs font-bold text-gray-300 hover:bg-gray-800 transition-colors">Close</button>
+                            <button disabled={!isValid} onClick={runExport} className="px-6 py-2 rounded bg-cyan-600 hover:bg-cyan-500 disabled:opacity-40 disabled:hover:bg-cyan-600 text-white text-xs font-bold shadow-lg shadow-cyan-900/20 transition-colors">Export</button>
+                        </>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+function download(blob: Blob, fileName: string) {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+}
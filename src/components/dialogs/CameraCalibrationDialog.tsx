@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import type { CameraCalibration, CameraIntrinsics } from '../../services/CameraProjection';
+
+interface Props {
+    topic: string | null; // Open while set
+    calibration: CameraCalibration;
+    cameraInfos: Record<string, CameraIntrinsics>;
+    frames: string[]; // URDF links and TF frames
+    onClose: () => void;
+    onSave: (calibration: CameraCalibration) => void;
+}
+
+const inputClass = 'w-full bg-gray-900 border border-gray-700 rounded px-3 py-1.5 text-sm text-gray-300 focus:border-cyan-500 outline-none font-mono';
+
+export const CameraCalibrationDialog: React.FC<Props> = (props) => {
+    if (props.topic === null) return null;
+    return <CameraCalibrationForm {...props} topic={props.topic} />;
+};
+
+// Mounted only while open, so local state starts from the topic's current calibration each time
+const CameraCalibrationForm: React.FC<Props & { topic: string }> = ({ topic, calibration, cameraInfos, frames, onClose, onSave }) => {
+    const [local, setLocal] = useState<CameraCalibration>(calibration);
+
+    const info = cameraInfos[local.infoTopic];
+    const isValid = !!info && local.frame.trim() !== '';
+
+    return (
+        <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/80 backdrop-blur-sm">
+            <div className="bg-[#111] border border-gray-700 rounded-xl w-[500px] flex flex-col shadow-2xl">
+
+                {/* Header */}
+                <div className="flex justify-between items-center p-4 border-b border-gray-800">
+                    <div className="min-w-0">
+                        <h2 className="text-lg font-bold text-gray-200">Camera Calibration</h2>
+                        <p className="text-[10px] text-gray-500 font-mono truncate" title={topic}>{topic}</p>
+                    </div>
+                    <button onClick={onClose} className="text-gray-500 hover:text-white">✕</button>
+                </div>
+
+                <div className="p-6 space-y-6">
+                    {/* Intrinsics */}
+                    <div>
+                        <label className="block text-xs font-bold text-cyan-500 uppercase mb-2">Camera Info Topic</label>
+                        <select value={local.infoTopic} onChange={e => setLocal({ ...local, infoTopic: e.target.value })} className={inputClass}>
+                            <option value="">Select...</option>
+                            {Object.keys(cameraInfos).sort().map(t => <option key={t} value={t}>{t}</option>)}
+                        </select>
+                        {info && (
+                            <p className="text-[10px] text-gray-500 font-mono mt-1">
+                                {info.width}×{info.height} · fx {info.K[0]?.toFixed(1)} fy {info.K[4]?.toFixed(1)} · {info.distortionModel || 'no distortion'} · frame {info.frameId || '—'}
+                            </p>
+                        )}
+                    </div>
+
+                    {/* Extrinsics */}
+                    <div>
+                        <label className="block text-xs font-bold text-cyan-500 uppercase mb-2">Camera Frame</label>
+                        <input
+                            type="text"
+                            list="camera-frame-options"
+                            value={local.frame}
+                            onChange={e => setLocal({ ...local, frame: e.target.value })}
+                            placeholder="camera_color_optical_frame"
+                            className={inputClass}
+                        />
+                        <datalist id="camera-frame-options">
+                            {frames.map(f => <option key={f} value={f} />)}
+                        </datalist>
+                        <p className="text-[10px] text-gray-500 mt-1">A URDF link (e.g. a wrist camera) or a TF frame, with the optical convention: z forward, x right, y down.</p>
+                    </div>
+
+                    {/* Options */}
+                    <div className="space-y-2">
+                        <label className="flex items-center gap-2 text-xs text-gray-300 cursor-pointer">
+                            <input type="checkbox" checked={local.rectified} onChange={e => setLocal({ ...local, rectified: e.target.checked })} className="accent-cyan-500" />
+                            Image is rectified (project with P, no distortion)
+                        </label>
+                        <label className="flex items-center gap-2 text-xs text-gray-300 cursor-pointer">
+                            <input type="checkbox" checked={local.showSkeleton} onChange={e => setLocal({ ...local, showSkeleton: e.target.checked })} className="accent-cyan-500" />
+                            Draw the link skeleton as well as the gripper tips
+                        </label>
+                        <p className="text-[10px] text-gray-500">Gripper tips are the links picked under Trails in the 3D view.</p>
+                    </div>
+                </div>
+
+                {/* Footer */}
+                <div className="p-4 border-t border-gray-800 flex justify-end gap-3 bg-[#0e0e0e] rounded-b-xl">
+                    <button onClick={onClose} className="px-4 py-2 rounded text-xs font-bold text-gray-300 hover:bg-gray-800 transition-colors">Cancel</button>
+                    <button disabled={!isValid} onClick={() => { onSave({ ...local, showOverlay: true }); onClose(); }} className="px-6 py-2 rounded bg-cyan-600 hover:bg-cyan-500 disabled:opacity-40 disabled:hover:bg-cyan-600 text-white text-xs font-bold shadow-lg shadow-cyan-900/20 transition-colors">Apply</button>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,252 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { zipSync } from 'fflate';
+import type { BagService } from '../../services/BagService';
+import { formatGB, imageBytes, MAX_IMAGE_BYTES, writeAlohaEpisodes } from '../../services/AlohaExport';
+import { frameLabels, probeCameras, scopeSegments, type DatasetExportOptions, type EndEffectorOptions, type ExportScope, type LabelSpan } from '../../services/DatasetExport';
+import { canEncodeVideo, recordingFps, writeLeRobotDataset } from '../../services/LeRobotExport';
+import { stripRecordingExtension } from '../../services/readers';
+import { ExportScopePicker } from './ExportScopePicker';
+
+type ExportFormat = 'aloha' | 'lerobot';
+
+type Subtask = LabelSpan & { id: string };
+
+interface Props {
+    isOpen: boolean;
+    onClose: () => void;
+    bagService: BagService;
+    imageTopics: string[]; // In display order
+    subtasks: Subtask[];
+    contacts: LabelSpan[];
+    endEffector: EndEffectorOptions | null; // URDF trail links, when a robot is loaded
+}
+
+const inputClass = 'w-full bg-gray-900 border border-gray-700 rounded px-3 py-1.5 text-sm text-gray-300 focus:border-cyan-500 outline-none font-mono';
+
+export const DatasetExportDialog: React.FC<Props> = (props) => {
+    if (!props.isOpen) return null;
+    return <DatasetExportForm {...props} />;
+};
+
+// Mounted only while open, so the selection starts from the loaded recording each time
+const DatasetExportForm: React.FC<Props> = ({ onClose, bagService, imageTopics, subtasks, contacts, endEffector }) => {
+    const jointTopics = bagService.jointHistory.topics.map(t => t.topic);
+
+    const [scope, setScope] = useState<ExportScope>(() => ({ wholeRecording: subtasks.length === 0, subtaskIds: subtasks.map(s => s.id), goodOnly: false }));
+    const [format, setFormat] = useState<ExportFormat>('aloha');
+    const [options, setOptions] = useState<DatasetExportOptions>({ stateTopics: jointTopics, actionTopic: null, imageTopics, endEffector });
+    const [compress, setCompress] = useState(true); // ALOHA: gzip image datasets
+    const [fps, setFps] = useState(() => recordingFps(bagService.timestamps, bagService.sync)); // LeRobot
+    const [videos, setVideos] = useState(true);
+    const [defaultTask, setDefaultTask] = useState('');
+    const [videoSupported, setVideoSupported] = useState<boolean | null>(null);
+    const [progress, setProgress] = useState<{ episode: number; count: number; fraction: number } | null>(null);
+    const [error, setError] = useState('');
+    const [largeExport, setLargeExport] = useState<number | null>(null); // ALOHA: raw image bytes over the limit, exported on the next click
+    const abortRef = useRef<AbortController | null>(null);
+
+    useEffect(() => {
+        canEncodeVideo().then(supported => {
+            setVideoSupported(supported);
+            if (!supported) setVideos(false);
+        });
+    }, []);
+
+    const segments = scopeSegments(scope, subtasks, bagService.timestamps.length);
+
+    const runExport = async () => {
+        const controller = new AbortController();
+        abortRef.current = controller;
+        setError('');
+        const base = stripRecordingExtension(bagService.sourceFiles[0]?.name ?? 'recording');
+        const episodes = segments.map(segment => ({ segment, labels: frameLabels(segment.start, segment.end, subtasks, contacts) }));
+        const report = (episode: number, fraction: number) => setProgress({ episode, count: segments.length, fraction });
+        try {
+            if (format === 'lerobot') {
+                report(0, 0);
+                const files = await writeLeRobotDataset(bagService, episodes, { ...options, fps, videos, defaultTask: defaultTask.trim() }, report, controller.signal);
+                const root = `${base}_lerobot`;
+                download(zipFiles(Object.fromEntries(Object.entries(files).map(([path, data]) => [`${root}/${path}`, data]))), `${root}_${Date.now()}.zip`);
+            } else {
+                report(0, 0);
+                const cameraSizes = await probeCameras(bagService, segments, options.imageTopics, controller.signal);
+                const bytes = imageBytes(segments, cameraSizes);
+                // Gzip shrinks the images by an amount only known once they're written, so ask first
+                if (compress && bytes > MAX_IMAGE_BYTES && largeExport !== bytes) {
+                    setLargeExport(bytes);
+                    return;
+                }
+                const files = await writeAlohaEpisodes(bagService, episodes, cameraSizes, { ...options, compress }, report, controller.signal);
+                if (segments.length === 1) {
+                    download(new Blob([files[`${segments[0].name}.hdf5`] as Uint8Array<ArrayBuffer>]), `${base}_${segments[0].name}.hdf5`);
+                } else {
+                    download(zipFiles(files), `${base}_aloha_${Date.now()}.zip`);
+                }
+            }
+            onClose();
+        } catch (e) {
+            if (!controller.signal.aborted) setError((e as Error).message);
+        } finally {
+            abortRef.current = null;
+            setProgress(null);
+        }
+    };
+
+    const isValid = segments.length > 0 && options.stateTopics.length > 0 && segments.every(s => s.end >= s.start)
+        && (format === 'aloha' || (fps > 0 && defaultTask.trim() !== ''));
+    const isExporting = progress !== null;
+
+    return (
+        <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/80 backdrop-blur-sm">
+            <div className="bg-[#111] border border-gray-700 rounded-xl w-[560px] max-h-[90vh] flex flex-col shadow-2xl">
+
+                {/* Header */}
+                <div className="flex justify-between items-center p-4 border-b border-gray-800 shrink-0">
+                    <h2 className="text-lg font-bold text-gray-200">Export Dataset</h2>
+                    <button onClick={() => { abortRef.current?.abort(); onClose(); }} className="text-gray-500 hover:text-white">✕</button>
+                </div>
+
+                <fieldset disabled={isExporting} className="p-6 space-y-6 overflow-y-auto">
+                    {/* Format */}
+                    <div>
+                        <label className="block text-xs font-bold text-cyan-500 uppercase mb-2">Format</label>
+                        <div className="flex gap-4 text-xs text-gray-300">
+                            <label className="flex items-center gap-2 cursor-pointer">
+                                <input type="radio" checked={format === 'aloha'} onChange={() => setFormat('aloha')} className="accent-cyan-500" />
+                                ALOHA HDF5
+                            </label>
+                            <label className="flex items-center gap-2 cursor-pointer">
+                                <input type="radio" checked={format === 'lerobot'} onChange={() => setFormat('lerobot')} className="accent-cyan-500" />
+                                LeRobot
+                            </label>
+                        </div>
+                        <p className="text-[10px] text-gray-500 mt-1">
+                            {format === 'aloha'
+                                ? 'One .hdf5 file per episode; several are downloaded as one zip.'
+                                : 'One dataset folder (zipped) with every episode: parquet frame tables, camera videos and meta/.'}
+                        </p>
+                    </div>
+
+                    {/* Episodes */}
+                    <div>
+                        <label className="block text-xs font-bold text-cyan-500 uppercase mb-2">Episodes</label>
+                        <ExportScopePicker scope={scope} onChange={setScope} subtasks={subtasks} segmentCount={segments.length} noun="episode" />
+                    </div>
+
+                    {/* Joints */}
+                    <div>
+                        <label className="block text-xs font-bold text-cyan-500 uppercase mb-2">{format === 'aloha' ? 'State (qpos / qvel / effort)' : 'State (observation.state)'}</label>
+                        <div className="space-y-1">
+                            {jointTopics.map(topic => (
+                                <label key={topic} className="flex items-center gap-2 text-xs text-gray-300 font-mono cursor-pointer">
+                                    <input type="checkbox" checked={options.stateTopics.includes(topic)} onChange={() => setOptions({ ...options, stateTopics: jointTopics.filter(t => t === topic ? !options.stateTopics.includes(t) : options.stateTopics.includes(t)) })} className="accent-cyan-500" />
+                                    {topic}
+                                </label>
+                            ))}
+                            {jointTopics.length === 0 && <p className="text-xs text-gray-500">No JointState topics in this recording.</p>}
+                        </div>
+                    </div>
+
+                    <div>
+                        <label className="block text-xs font-bold text-cyan-500 uppercase mb-2">Action</label>
+                        <select value={options.actionTopic ?? ''} onChange={e => setOptions({ ...options, actionTopic: e.target.value || null })} className={inputClass}>
+                            <option value="">Next frame's qpos</option>
+                            {jointTopics.map(t => <option key={t} value={t}>{t} (position)</option>)}
+                        </select>
+                        <p className="text-[10px] text-gray-500 mt-1">Pick the leader arm's topic when the recording has one.</p>
+                        <label className={`flex items-center gap-2 text-xs cursor-pointer mt-3 ${endEffector ? 'text-gray-300' : 'text-gray-600'}`}>
+                            <input type="checkbox" checked={options.endEffector !== null} disabled={!endEffector} onChange={e => setOptions({ ...options, endEffector: e.target.checked ? endEffector : null })} className="accent-cyan-500" />
+                            End-effector pose from FK{endEffector ? ` (${endEffector.links.join(', ')})` : ''}
+                        </label>
+                        <p className="text-[10px] text-gray-500 mt-1">{endEffector ? 'Cartesian state and next-frame action per link, in the robot root frame.' : 'Load a URDF and pick trail links to export their pose.'}</p>
+                    </div>
+
+                    {/* Cameras */}
+                    <div>
+                        <label className="block text-xs font-bold text-cyan-500 uppercase mb-2">Cameras</label>
+                        <div className="space-y-1">
+                            {imageTopics.map(topic => (
+                                <label key={topic} className="flex items-center gap-2 text-xs text-gray-300 font-mono cursor-pointer">
+                                    <input type="checkbox" checked={options.imageTopics.includes(topic)} onChange={() => setOptions({ ...options, imageTopics: imageTopics.filter(t => t === topic ? !options.imageTopics.includes(t) : options.imageTopics.includes(t)) })} className="accent-cyan-500" />
+                                    {topic}
+                                </label>
+                            ))}
+                        </div>
+                        {format === 'aloha' ? (
+                            <label className="flex items-center gap-2 text-xs text-gray-300 cursor-pointer mt-3">
+                                <input type="checkbox" checked={compress} onChange={e => setCompress(e.target.checked)} className="accent-cyan-500" />
+                                Gzip image datasets (smaller files, slower export)
+                            </label>
+                        ) : (
+                            <div className="mt-3 space-y-1">
+                                <label className="flex items-center gap-2 text-xs text-gray-300 cursor-pointer">
+                                    <input type="radio" checked={videos} disabled={!videoSupported} onChange={() => setVideos(true)} className="accent-cyan-500" />
+                                    MP4 videos (H.264)
+                                </label>
+                                <label className="flex items-center gap-2 text-xs text-gray-300 cursor-pointer">
+                                    <input type="radio" checked={!videos} onChange={() => setVideos(false)} className="accent-cyan-500" />
+                                    PNG image folders, to encode with ffmpeg later
+                                </label>
+                                {videoSupported === false && <p className="text-[10px] text-amber-400">This browser cannot encode H.264 video.</p>}
+                            </div>
+                        )}
+                    </div>
+
+                    {/* LeRobot */}
+                    {format === 'lerobot' && (
+                        <div className="grid grid-cols-[1fr_100px] gap-4">
+                            <div>
+                                <label className="block text-xs font-bold text-cyan-500 uppercase mb-2">Default Task</label>
+                                <input type="text" value={defaultTask} onChange={e => setDefaultTask(e.target.value)} placeholder="fold the towel" className={inputClass} />
+                                <p className="text-[10px] text-gray-500 mt-1">Frames inside a subtask use its prompt as the task; the rest use this.</p>
+                            </div>
+                            <div>
+                                <label className="block text-xs font-bold text-cyan-500 uppercase mb-2">FPS</label>
+                                <input type="number" min={1} value={fps} onChange={e => setFps(Number(e.target.value))} className={inputClass} />
+                            </div>
+                        </div>
+                    )}
+
+                    {largeExport !== null && format === 'aloha' && (
+                        <p className="text-xs text-amber-400">The images take {formatGB(largeExport)} uncompressed, more than the {formatGB(MAX_IMAGE_BYTES)} an export can safely hold in memory. Gzip may bring it under that, or the tab may run out of memory; drop cameras or export fewer subtasks to be safe.</p>
+                    )}
+                    {error && <p className="text-xs text-rose-300 font-mono">{error}</p>}
+                </fieldset>
+
+                {/* Footer */}
+                <div className="p-4 border-t border-gray-800 flex items-center justify-end gap-3 bg-[#0e0e0e] rounded-b-xl shrink-0">
+                    {progress && (
+                        <div className="flex-1 flex items-center gap-3">
+                            <span className="text-[10px] text-gray-400 tabular-nums whitespace-nowrap">Episode {progress.episode + 1}/{progress.count}</span>
+                            <div className="flex-1 h-1.5 bg-gray-800 rounded-full overflow-hidden">
+                                <div className="h-full bg-cyan-500 transition-[width] duration-200" style={{ width: `${Math.round(progress.fraction * 100)}%` }} />
+                            </div>
+                        </div>
+                    )}
+                    {isExporting ? (
+                        <button onClick={() => abortRef.current?.abort()} className="px-4 py-2 rounded text-xs font-bold text-gray-300 hover:bg-gray-800 transition-colors">Cancel</button>
+                    ) : (
+                        <>
+                            <button onClick={onClose} className="px-4 py-2 rounded text-xs font-bold text-gray-300 hover:bg-gray-800 transition-colors">Close</button>
+                            <button disabled={!isValid} onClick={runExport} className="px-6 py-2 rounded bg-cyan-600 hover:bg-cyan-500 disabled:opacity-40 disabled:hover:bg-cyan-600 text-white text-xs font-bold shadow-lg shadow-cyan-900/20 transition-colors">{largeExport !== null && format === 'aloha' ? 'Export Anyway' : 'Export'}</button>
+                        </>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+// Stored, not deflated: HDF5 images, videos and parquet are compressed already
+const zipFiles = (files: Record<string, Uint8Array>) => new Blob([zipSync(files, { level: 0 }) as Uint8Array<ArrayBuffer>]);
+
+function download(blob: Blob, fileName: string) {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+}
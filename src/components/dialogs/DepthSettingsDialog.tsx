@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import { DEFAULT_DEPTH_DISPLAY, DEPTH_COLORMAPS, type DepthDisplay } from '../../services/DepthDisplay';
+
+interface Props {
+    topic: string | null; // Open while set
+    display: DepthDisplay;
+    onClose: () => void;
+    onSave: (display: DepthDisplay) => void;
+}
+
+const inputClass = 'w-28 bg-gray-900 border border-gray-700 rounded px-3 py-1.5 text-sm text-gray-300 focus:border-cyan-500 outline-none font-mono disabled:opacity-40';
+
+export const DepthSettingsDialog: React.FC<Props> = (props) => {
+    if (props.topic === null) return null;
+    return <DepthSettingsForm {...props} topic={props.topic} />;
+};
+
+// Mounted only while open, so local state starts from the topic's current settings each time
+const DepthSettingsForm: React.FC<Props & { topic: string }> = ({ topic, display, onClose, onSave }) => {
+    const [local, setLocal] = useState<DepthDisplay>(display);
+
+    const isValid = local.autoRange || (Number.isFinite(local.minMm) && Number.isFinite(local.maxMm) && local.maxMm > local.minMm);
+
+    return (
+        <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/80 backdrop-blur-sm">
+            <div className="bg-[#111] border border-gray-700 rounded-xl w-[460px] flex flex-col shadow-2xl">
+
+                {/* Header */}
+                <div className="flex justify-between items-center p-4 border-b border-gray-800">
+                    <div className="min-w-0">
+                        <h2 className="text-lg font-bold text-gray-200">Depth Display</h2>
+                        <p className="text-[10px] text-gray-500 font-mono truncate" title={topic}>{topic}</p>
+                    </div>
+                    <button onClick={onClose} className="text-gray-500 hover:text-white">✕</button>
+                </div>
+
+                <div className="p-6 space-y-6">
+                    {/* Range */}
+                    <div>
+                        <label className="block text-xs font-bold text-cyan-500 uppercase mb-2">Range (mm)</label>
+                        <div className="flex gap-2 items-center">
+                            <input
+                                type="number" min={0} step={100}
+                                value={local.minMm}
+                                disabled={local.autoRange}
+                                onChange={e => setLocal({ ...local, minMm: Number(e.target.value) })}
+                                className={inputClass}
+                            />
+                            <span className="text-gray-600">–</span>
+                            <input
+                                type="number" min={0} step={100}
+                                value={local.maxMm}
+                                disabled={local.autoRange}
+                                onChange={e => setLocal({ ...local, maxMm: Number(e.target.value) })}
+                                className={inputClass}
+                            />
+                            <label className="flex items-center gap-2 ml-2 text-xs text-gray-300 cursor-pointer">
+                                <input type="checkbox" checked={local.autoRange} onChange={e => setLocal({ ...local, autoRange: e.target.checked })} className="accent-cyan-500" />
+                                Auto per frame
+                            </label>
+                        </div>
+                        <p className="text-[10px] text-gray-500 mt-1">A fixed range keeps each distance the same color across frames. Auto stretches every frame between its nearest and farthest reading.</p>
+                    </div>
+
+                    {/* Colormap */}
+                    <div>
+                        <label className="block text-xs font-bold text-cyan-500 uppercase mb-2">Colormap</label>
+                        <div className="flex flex-wrap gap-2">
+                            {DEPTH_COLORMAPS.map(c => (
+                                <button key={c} onClick={() => setLocal({ ...local, colormap: c })}
+                                    className={`px-3 py-1.5 rounded border text-[10px] font-bold uppercase transition-all ${local.colormap === c ? 'bg-cyan-900/30 border-cyan-500/60 text-cyan-300' : 'bg-gray-800 border-gray-700 text-gray-400 hover:border-gray-500'}`}>
+                                    {c}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+
+                    {/* Invalid Pixels */}
+                    <label className="flex items-center gap-2 text-xs text-gray-300 cursor-pointer">
+                        <input type="checkbox" checked={local.maskInvalid} onChange={e => setLocal({ ...local, maskInvalid: e.target.checked })} className="accent-cyan-500" />
+                        Draw pixels without a reading (0 or NaN) black
+                    </label>
+                </div>
+
+                {/* Footer */}
+                <div className="p-4 border-t border-gray-800 flex justify-between items-center bg-[#0e0e0e] rounded-b-xl">
+                    <button onClick={() => setLocal(DEFAULT_DEPTH_DISPLAY)} className="px-3 py-1.5 rounded text-[10px] font-bold text-gray-400 hover:bg-gray-800 transition-colors">Reset</button>
+                    <div className="flex gap-3">
+                        <button onClick={onClose} className="px-4 py-2 rounded text-xs font-bold text-gray-300 hover:bg-gray-800 transition-colors">Cancel</button>
+                        <button disabled={!isValid} onClick={() => { onSave(local); onClose(); }} className="px-6 py-2 rounded bg-cyan-600 hover:bg-cyan-500 disabled:opacity-40 disabled:hover:bg-cyan-600 text-white text-xs font-bold shadow-lg shadow-cyan-900/20 transition-colors">Apply</button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
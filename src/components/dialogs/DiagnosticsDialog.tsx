@@ -0,0 +1,104 @@
+import React from 'react';
+import type { BagDiagnostics } from '../../services/BagDiagnostics';
+
+interface Props {
+    isOpen: boolean;
+    onClose: () => void;
+    diagnostics: BagDiagnostics;
+    onSeek: (frame: number) => void;
+}
+
+const formatHz = (hz: number) => (hz > 0 ? hz.toFixed(hz < 10 ? 2 : 1) : '-');
+
+// Relative to the first frame, so times read like the timeline
+const formatOffset = (ms: number, startMs: number) => `${((ms - startMs) / 1000).toFixed(2)}s`;
+
+export const DiagnosticsDialog: React.FC<Props> = ({ isOpen, onClose, diagnostics, onSeek }) => {
+    if (!isOpen) return null;
+    const { topics, missingTopics, issues, startMs } = diagnostics;
+
+    return (
+        <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/80 backdrop-blur-sm">
+            <div className="bg-[#111] border border-gray-700 rounded-xl w-[880px] max-h-[90vh] flex flex-col shadow-2xl">
+
+                {/* Header */}
+                <div className="flex justify-between items-center p-4 border-b border-gray-800 shrink-0">
+                    <h2 className="text-lg font-bold text-gray-200">Recording Health</h2>
+                    <button onClick={onClose} className="text-gray-500 hover:text-white">✕</button>
+                </div>
+
+                <div className="p-6 space-y-6 overflow-y-auto">
+                    {/* Issues */}
+                    <div>
+                        <label className="block text-xs font-bold text-cyan-500 uppercase mb-2">Issues</label>
+                        {issues.length > 0 ? (
+                            <ul className="space-y-1">
+                                {issues.map(issue => <li key={issue} className="text-xs text-rose-300 font-mono">• {issue}</li>)}
+                            </ul>
+                        ) : (
+                            <p className="text-xs text-emerald-400">No issues found.</p>
+                        )}
+                        {diagnostics.indexOnly && <p className="text-[10px] text-gray-500 mt-1">Loaded from the index: header.stamp order was not checked.</p>}
+                    </div>
+
+                    {/* Topics */}
+                    <div>
+                        <label className="block text-xs font-bold text-cyan-500 uppercase mb-2">Topics</label>
+                        <div className="border border-gray-800 rounded overflow-x-auto">
+                            <table className="w-full text-[11px]">
+                                <thead className="bg-gray-900 text-gray-500">
+                                    <tr>
+                                        <th className="text-left font-bold px-3 py-1.5">Topic</th>
+                                        <th className="text-right font-bold px-2 py-1.5">Messages</th>
+                                        <th className="text-right font-bold px-2 py-1.5">Mean Hz</th>
+                                        <th className="text-right font-bold px-2 py-1.5" title="Rate that 99% of message intervals keep up with">p99 Hz</th>
+                                        <th className="text-right font-bold px-2 py-1.5">First</th>
+                                        <th className="text-right font-bold px-2 py-1.5">Last</th>
+                                        <th className="text-right font-bold px-2 py-1.5" title="header.stamp going backwards">Out of order</th>
+                                        <th className="text-left font-bold px-3 py-1.5">Largest gaps</th>
+                                    </tr>
+                                </thead>
+                                <tbody className="font-mono">
+                                    {topics.map(t => (
+                                        <tr key={t.topic} className="border-t border-gray-800">
+                                            <td className="px-3 py-1 text-gray-300 truncate max-w-[220px]" title={`${t.topic} [${t.type}]`}>{t.topic}</td>
+                                            <td className="px-2 py-1 text-right text-gray-400">{t.count}</td>
+                                            <td className="px-2 py-1 text-right text-gray-400">{formatHz(t.meanHz)}</td>
+                                            <td className="px-2 py-1 text-right text-gray-400">{formatHz(t.p99Hz)}</td>
+                                            <td className="px-2 py-1 text-right text-gray-400">{formatOffset(t.firstMs, startMs)}</td>
+                                            <td className="px-2 py-1 text-right text-gray-400">{formatOffset(t.lastMs, startMs)}</td>
+                                            <td className={`px-2 py-1 text-right ${t.outOfOrder ? 'text-rose-300' : 'text-gray-400'}`}>{t.outOfOrder ?? '-'}</td>
+                                            <td className="px-3 py-1">
+                                                <div className="flex gap-1">
+                                                    {t.largestGaps.map(gap => (
+                                                        <button key={gap.atMs} onClick={() => { onSeek(gap.frame); onClose(); }}
+                                                            className="px-1.5 rounded bg-gray-800 hover:bg-gray-700 text-gray-300 border border-gray-700"
+                                                            title={`At ${formatOffset(gap.atMs, startMs)}, frame ${gap.frame}`}>
+                                                            {gap.durationMs.toFixed(0)}ms
+                                                        </button>
+                                                    ))}
+                                                </div>
+                                            </td>
+                                        </tr>
+                                    ))}
+                                    {missingTopics.map(topic => (
+                                        <tr key={topic} className="border-t border-gray-800">
+                                            <td className="px-3 py-1 text-rose-300 truncate max-w-[220px]" title={topic}>{topic}</td>
+                                            <td colSpan={7} className="px-2 py-1 text-rose-300/70">never appeared</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                        <p className="text-[10px] text-gray-500 mt-1">Times are relative to the first frame. Click a gap to jump to it. The report is included in the JSON export.</p>
+                    </div>
+                </div>
+
+                {/* Footer */}
+                <div className="p-4 border-t border-gray-800 flex justify-end shrink-0 bg-[#0e0e0e] rounded-b-xl">
+                    <button onClick={onClose} className="px-4 py-2 rounded text-xs font-bold text-gray-300 hover:bg-gray-800 transition-colors">Close</button>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,53 @@
+import React from 'react';
+import type { ExportScope, LabelSpan } from '../../services/DatasetExport';
+
+interface Props {
+    scope: ExportScope;
+    onChange: (scope: ExportScope) => void;
+    subtasks: (LabelSpan & { id: string })[];
+    segmentCount: number; // Spans the scope currently yields
+    noun: 'episode' | 'range'; // What each span becomes
+}
+
+/** Whole recording or a pick of subtasks, as the export dialogs offer it. */
+export const ExportScopePicker: React.FC<Props> = ({ scope, onChange, subtasks, segmentCount, noun }) => {
+    const sortedSubtasks = [...subtasks].sort((a, b) => a.start - b.start);
+    const toggle = (id: string) => onChange({
+        ...scope,
+        subtaskIds: scope.subtaskIds.includes(id) ? scope.subtaskIds.filter(x => x !== id) : [...scope.subtaskIds, id]
+    });
+
+    return (
+        <div>
+            <div className="flex gap-4 text-xs text-gray-300">
+                <label className="flex items-center gap-2 cursor-pointer">
+                    <input type="radio" checked={scope.wholeRecording} onChange={() => onChange({ ...scope, wholeRecording: true })} className="accent-cyan-500" />
+                    Whole recording
+                </label>
+                <label className="flex items-center gap-2 cursor-pointer">
+                    <input type="radio" checked={!scope.wholeRecording} onChange={() => onChange({ ...scope, wholeRecording: false })} disabled={subtasks.length === 0} className="accent-cyan-500" />
+                    {noun === 'episode' ? 'One per subtask' : 'Subtasks only'}
+                </label>
+            </div>
+            {!scope.wholeRecording && (
+                <div className="mt-3 space-y-2">
+                    <label className="flex items-center gap-2 text-xs text-gray-300 cursor-pointer">
+                        <input type="checkbox" checked={scope.goodOnly} onChange={e => onChange({ ...scope, goodOnly: e.target.checked })} className="accent-cyan-500" />
+                        Only subtasks marked good
+                    </label>
+                    <div className="max-h-40 overflow-y-auto border border-gray-800 rounded divide-y divide-gray-800">
+                        {sortedSubtasks.map(s => (
+                            <label key={s.id} className={`flex items-center gap-2 px-3 py-1.5 text-[11px] cursor-pointer ${scope.goodOnly && s.quality !== 'good' ? 'opacity-40' : ''}`}>
+                                <input type="checkbox" checked={scope.subtaskIds.includes(s.id)} onChange={() => toggle(s.id)} className="accent-cyan-500" />
+                                <span className="font-mono text-gray-500 tabular-nums">{s.start}–{s.end}</span>
+                                <span className="flex-1 truncate text-gray-300">{s.prompt || 'Untitled'}</span>
+                                <span className="text-gray-500 uppercase text-[10px]">{s.quality ?? '—'}</span>
+                            </label>
+                        ))}
+                    </div>
+                </div>
+            )}
+            <p className="text-[10px] text-gray-500 mt-1">{segmentCount} {noun}{segmentCount === 1 ? '' : 's'}</p>
+        </div>
+    );
+};
@@ -0,0 +1,219 @@
+import React, { useState } from 'react';
+import type { BagService } from '../../services/BagService';
+import { SEGMENTATION_PRESETS, formatTaskLabel, segmentTaskStates, type LabelRule, type SegmentationConfig, type TaskSegment } from '../../services/TaskSegmenter';
+
+interface Props {
+    isOpen: boolean;
+    onClose: () => void;
+    config: SegmentationConfig;
+    onSave: (config: SegmentationConfig) => void;
+    bagService: BagService; // To list topics and preview segments of the loaded recording
+    isFileLoaded: boolean;
+}
+
+const inputClass = 'bg-gray-900 border border-gray-700 rounded px-3 py-1.5 text-sm text-gray-300 focus:border-cyan-500 outline-none font-mono';
+
+export const SegmentationSettingsDialog: React.FC<Props> = (props) => {
+    if (!props.isOpen) return null;
+    return <SegmentationSettingsForm {...props} />;
+};
+
+// Mounted only while open, so local state starts from the current config each time
+const SegmentationSettingsForm: React.FC<Props> = ({ onClose, config, onSave, bagService, isFileLoaded }) => {
+    const [local, setLocal] = useState<SegmentationConfig>(config);
+    const [sample, setSample] = useState('{"phase": "pick", "instruction": "red"}');
+    const [preview, setPreview] = useState<TaskSegment[] | null>(null);
+    const [previewError, setPreviewError] = useState('');
+    const [isPreviewing, setIsPreviewing] = useState(false);
+
+    // String topics first, they are the usual carriers of task state
+    const topics = Object.keys(bagService.topicTypes).sort((a, b) => {
+        const rank = (t: string) => (/String$/.test(bagService.topicTypes[t]) ? 0 : 1);
+        return rank(a) - rank(b) || a.localeCompare(b);
+    });
+
+    const update = (patch: Partial<SegmentationConfig>) => {
+        setLocal({ ...local, ...patch });
+        setPreview(null);
+    };
+
+    const setRule = (index: number, patch: Partial<LabelRule>) =>
+        update({ rules: local.rules.map((r, i) => (i === index ? { ...r, ...patch } : r)) });
+
+    const runPreview = async () => {
+        setIsPreviewing(true);
+        setPreviewError('');
+        try {
+            setPreview(segmentTaskStates(await bagService.loadTaskStates(local.topic, local.field), local));
+        } catch (e) {
+            setPreview(null);
+            setPreviewError((e as Error).message);
+        } finally {
+            setIsPreviewing(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/80 backdrop-blur-sm">
+            <div className="bg-[#111] border border-gray-700 rounded-xl w-[600px] max-h-[90vh] flex flex-col shadow-2xl">
+
+                {/* Header */}
+                <div className="flex justify-between items-center p-4 border-b border-gray-800 shrink-0">
+                    <h2 className="text-lg font-bold text-gray-200">Auto-segmentation</h2>
+                    <button onClick={onClose} className="text-gray-500 hover:text-white">✕</button>
+                </div>
+
+                <div className="p-6 space-y-6 overflow-y-auto">
+                    {/* Source */}
+                    <div>
+                        <label className="block text-xs font-bold text-cyan-500 uppercase mb-2">Task-state Topic</label>
+                        <div className="flex gap-2">
+                            {topics.length > 0 ? (
+                                <select
+                                    value={local.topic}
+                                    onChange={e => update({ topic: e.target.value })}
+                                    className={`flex-1 cursor-pointer ${inputClass}`}
+                                >
+                                    <option value="">- none -</option>
+                                    {!topics.includes(local.topic) && local.topic && <option value={local.topic}>{local.topic} (not in recording)</option>}
+                                    {topics.map(t => <option key={t} value={t}>{t} [{bagService.topicTypes[t]}]</option>)}
+                                </select>
+                            ) : (
+                                <input
+                                    type="text"
+                                    value={local.topic}
+                                    onChange={e => update({ topic: e.target.value })}
+                                    className={`flex-1 ${inputClass}`}
+                                    placeholder="/puppet/task_state"
+                                />
+                            )}
+                            <input
+                                type="text"
+                                value={local.field}
+                                onChange={e => update({ field: e.target.value })}
+                                className={`w-32 ${inputClass}`}
+                                placeholder="field"
+                                title="Field inside the message, e.g. data for std_msgs/String. Empty for the whole message."
+                            />
+                        </div>
+                        <p className="text-[10px] text-gray-500 mt-1">A new subtask starts wherever the formatted label changes. Leave the topic empty to start with one blank subtask.</p>
+                    </div>
+
+                    {/* Parsing */}
+                    <div>
+                        <label className="block text-xs font-bold text-cyan-500 uppercase mb-2">Value</label>
+                        <div className="flex items-center gap-4">
+                            <label className="flex items-center gap-2 text-xs text-gray-300 cursor-pointer">
+                                <input type="checkbox" checked={local.parseJson} onChange={e => update({ parseJson: e.target.checked })} className="accent-cyan-500" />
+                                Parse as JSON
+                            </label>
+                            {local.parseJson && (
+                                <label className="flex items-center gap-2 text-xs text-gray-400">
+                                    Rule key
+                                    <input
+                                        type="text"
+                                        value={local.keyField}
+                                        onChange={e => update({ keyField: e.target.value })}
+                                        className={`w-32 ${inputClass}`}
+                                        placeholder="phase"
+                                    />
+                                </label>
+                            )}
+                        </div>
+                        <p className="text-[10px] text-gray-500 mt-1">
+                            {local.parseJson
+                                ? 'Rules match on the key field; templates can use any JSON field as {name}. Values that are not JSON are used as-is.'
+                                : 'Rules match on the whole value.'}
+                        </p>
+                    </div>
+
+                    {/* Rules */}
+                    <div>
+                        <label className="block text-xs font-bold text-cyan-500 uppercase mb-2">Label Rules</label>
+                        <div className="space-y-2">
+                            {local.rules.map((rule, i) => (
+                                <div key={i} className="flex gap-2 items-center">
+                                    <input
+                                        type="text"
+                                        value={rule.match}
+                                        onChange={e => setRule(i, { match: e.target.value })}
+                                        className={`w-32 ${inputClass}`}
+                                        placeholder="match"
+                                    />
+                                    <span className="text-gray-600">→</span>
+                                    <input
+                                        type="text"
+                                        value={rule.template}
+                                        onChange={e => setRule(i, { template: e.target.value })}
+                                        className={`flex-1 ${inputClass}`}
+                                        placeholder="pick the {instruction} cable"
+                                    />
+                                    <button onClick={() => update({ rules: local.rules.filter((_, j) => j !== i) })} className="text-gray-500 hover:text-rose-400 px-1">✕</button>
+                                </div>
+                            ))}
+                            <button onClick={() => update({ rules: [...local.rules, { match: '', template: '' }] })} className="px-3 py-1 rounded border border-dashed border-gray-700 text-[10px] font-bold text-gray-400 hover:border-cyan-500 hover:text-cyan-300">
+                                + Rule
+                            </button>
+                        </div>
+                        <div className="flex gap-2 items-center mt-3">
+                            <span className="w-32 text-xs text-gray-400">Otherwise</span>
+                            <span className="text-gray-600">→</span>
+                            <input
+                                type="text"
+                                value={local.fallbackTemplate}
+                                onChange={e => update({ fallbackTemplate: e.target.value })}
+                                className={`flex-1 ${inputClass}`}
+                                placeholder="{value}"
+                            />
+                        </div>
+                        <p className="text-[10px] text-gray-500 mt-1">{'{value}'} is the raw value of the field.</p>
+                    </div>
+
+                    {/* Preview */}
+                    <div>
+                        <label className="block text-xs font-bold text-cyan-500 uppercase mb-2">Preview</label>
+                        <div className="flex gap-2 items-center">
+                            <input type="text" value={sample} onChange={e => setSample(e.target.value)} className={`flex-1 ${inputClass}`} placeholder="Sample value" />
+                            <span className="text-gray-600">→</span>
+                            <span className="flex-1 text-xs text-cyan-300 font-mono truncate" title={formatTaskLabel(sample, local)}>{formatTaskLabel(sample, local) || '(no subtask)'}</span>
+                        </div>
+                        {isFileLoaded && (
+                            <div className="mt-3">
+                                <button disabled={!local.topic || isPreviewing} onClick={runPreview} className="px-3 py-1.5 rounded bg-gray-800 hover:bg-gray-700 disabled:opacity-40 text-[10px] font-bold text-gray-300 border border-gray-700">
+                                    {isPreviewing ? 'Reading...' : 'Preview on Recording'}
+                                </button>
+                                {previewError && <p className="text-[10px] text-rose-400 mt-1">{previewError}</p>}
+                                {preview && (
+                                    <div className="mt-2 max-h-32 overflow-y-auto border border-gray-800 rounded text-[11px] font-mono">
+                                        {preview.length === 0 && <div className="px-3 py-1 text-gray-500">No segments</div>}
+                                        {preview.map((seg, i) => (
+                                            <div key={i} className="flex gap-3 px-3 py-0.5 border-t border-gray-800 first:border-t-0">
+                                                <span className="text-gray-500 w-24 shrink-0">{seg.start}–{seg.end}</span>
+                                                <span className="text-gray-300 truncate">{seg.prompt}</span>
+                                            </div>
+                                        ))}
+                                    </div>
+                                )}
+                            </div>
+                        )}
+                    </div>
+                </div>
+
+                {/* Footer */}
+                <div className="p-4 border-t border-gray-800 flex justify-between items-center shrink-0 bg-[#0e0e0e] rounded-b-xl">
+                    <div className="flex gap-2 items-center">
+                        <span className="text-[10px] font-bold text-gray-500 uppercase">Presets</span>
+                        {SEGMENTATION_PRESETS.map(p => (
+                            <button key={p.label} onClick={() => update(p.config)} className="px-2 py-1 rounded bg-gray-800 hover:bg-gray-700 text-[10px] text-gray-300 border border-gray-700">{p.label}</button>
+                        ))}
+                    </div>
+                    <div className="flex gap-3 items-center">
+                        {isFileLoaded && <span className="text-[10px] text-amber-500/80">Replaces subtasks</span>}
+                        <button onClick={onClose} className="px-4 py-2 rounded text-xs font-bold text-gray-300 hover:bg-gray-800 transition-colors">Cancel</button>
+                        <button onClick={() => { onSave(local); onClose(); }} className="px-6 py-2 rounded bg-cyan-600 hover:bg-cyan-500 text-white text-xs font-bold shadow-lg shadow-cyan-900/20 transition-colors">Apply</button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,107 @@
+import React, { useEffect, useState } from 'react';
+import { deleteSession, listSessions, type SavedSession } from '../../services/SessionStore';
+import { stripRecordingExtension } from '../../services/readers';
+
+interface Props {
+    isOpen: boolean;
+    onClose: () => void;
+    currentKey: string | null; // Session of the loaded recording
+    onRestore: (session: SavedSession) => void;
+}
+
+export const SessionsDialog: React.FC<Props> = (props) => {
+    if (!props.isOpen) return null;
+    return <SessionsList {...props} />;
+};
+
+// Mounted only while open, so the list is read fresh from IndexedDB each time
+const SessionsList: React.FC<Props> = ({ onClose, currentKey, onRestore }) => {
+    const [sessions, setSessions] = useState<SavedSession[] | null>(null);
+    const [error, setError] = useState('');
+    const [confirmDelete, setConfirmDelete] = useState<string | null>(null);
+
+    useEffect(() => {
+        listSessions().then(setSessions, err => setError((err as Error).message));
+    }, []);
+
+    const handleDelete = async (key: string) => {
+        if (confirmDelete !== key) {
+            setConfirmDelete(key);
+            return;
+        }
+        setConfirmDelete(null);
+        try {
+            await deleteSession(key);
+            setSessions(prev => prev?.filter(s => s.key !== key) ?? null);
+        } catch (err) {
+            setError((err as Error).message);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/80 backdrop-blur-sm">
+            <div className="bg-[#111] border border-gray-700 rounded-xl w-[640px] max-h-[90vh] flex flex-col shadow-2xl">
+
+                {/* Header */}
+                <div className="flex justify-between items-center p-4 border-b border-gray-800 shrink-0">
+                    <div>
+                        <h2 className="text-lg font-bold text-gray-200">Saved Sessions</h2>
+                        <p className="text-[10px] text-gray-500">Annotations are saved in this browser on every edit, per recording.</p>
+                    </div>
+                    <button onClick={onClose} className="text-gray-500 hover:text-white">✕</button>
+                </div>
+
+                <div className="p-4 overflow-y-auto">
+                    {error && <p className="text-xs text-rose-300 font-mono mb-3">{error}</p>}
+                    {sessions === null && !error && <p className="text-xs text-gray-500">Loading...</p>}
+                    {sessions?.length === 0 && <p className="text-xs text-gray-500">No saved sessions.</p>}
+                    {sessions && sessions.length > 0 && (
+                        <div className="border border-gray-800 rounded divide-y divide-gray-800">
+                            {sessions.map(session => {
+                                const { annotations } = session;
+                                const isCurrent = session.key === currentKey;
+                                return (
+                                    <div key={session.key} className={`flex items-center gap-3 px-3 py-2 ${isCurrent ? 'bg-cyan-950/30' : ''}`}>
+                                        <div className="flex-1 min-w-0">
+                                            <div className="flex items-center gap-2">
+                                                <span className="text-xs text-gray-200 font-mono truncate" title={session.fileName}>{session.fileName}</span>
+                                                {isCurrent && <span className="text-[9px] font-bold uppercase text-cyan-400">Loaded</span>}
+                                            </div>
+                                            <div className="text-[10px] text-gray-500 tabular-nums">
+                                                {new Date(session.savedAt).toLocaleString()} · {(session.fileSize / 1e6).toFixed(1)} MB · {annotations.metadata.totalFrames} frames · {annotations.subtasks.length} subtasks · {annotations.contacts.length} contacts
+                                            </div>
+                                        </div>
+                                        {isCurrent && (
+                                            <button onClick={() => onRestore(session)} className="px-2 py-1 rounded text-[10px] font-bold uppercase text-cyan-400 hover:bg-gray-800 transition-colors">Restore</button>
+                                        )}
+                                        <button onClick={() => downloadSession(session)} className="px-2 py-1 rounded text-[10px] font-bold uppercase text-gray-400 hover:text-white hover:bg-gray-800 transition-colors" title="Download as annotation JSON">JSON</button>
+                                        <button onClick={() => handleDelete(session.key)} onBlur={() => setConfirmDelete(null)} className="px-2 py-1 rounded text-[10px] font-bold uppercase text-rose-400 hover:bg-gray-800 transition-colors">
+                                            {confirmDelete === session.key ? 'Confirm' : 'Delete'}
+                                        </button>
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    )}
+                </div>
+
+                {/* Footer */}
+                <div className="p-4 border-t border-gray-800 flex justify-end bg-[#0e0e0e] rounded-b-xl shrink-0">
+                    <button onClick={onClose} className="px-4 py-2 rounded text-xs font-bold text-gray-300 hover:bg-gray-800 transition-colors">Close</button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+// The saved annotations as an Export JSON file, which Import JSON reads back
+function downloadSession(session: SavedSession) {
+    const url = URL.createObjectURL(new Blob([JSON.stringify(session.annotations, null, 2)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `annotation_${stripRecordingExtension(session.fileName)}_${session.savedAt}.json`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+}
@@ -0,0 +1,195 @@
+import React, { useState } from 'react';
+import type { BagService } from '../../services/BagService';
+import { DEFAULT_TOPIC_TIMING, RATE_PRESETS, type SyncMatching, type SyncMode, type SyncOptions, type TopicTiming } from '../../services/TimelineSync';
+
+interface Props {
+    isOpen: boolean;
+    onClose: () => void;
+    options: SyncOptions;
+    onSave: (options: SyncOptions) => void;
+    bagService: BagService; // To list candidate master topics and per-topic timing rows
+    isFileLoaded: boolean;
+}
+
+const MODES: { value: SyncMode; label: string; hint: string }[] = [
+    { value: 'fixed-rate', label: 'Fixed Rate', hint: 'Frames on a fixed time grid' },
+    { value: 'master-topic', label: 'Master Topic', hint: "One topic's messages define the frames" }
+];
+
+const MATCHINGS: { value: SyncMatching; label: string; hint: string }[] = [
+    { value: 'hold', label: 'Hold Last', hint: 'Latest message at or before each frame' },
+    { value: 'nearest', label: 'Nearest', hint: 'Closest message before or after each frame' }
+];
+
+const toggleClass = (active: boolean) =>
+    `flex-1 px-3 py-2 rounded border text-left transition-all ${active ? 'bg-cyan-900/30 border-cyan-500/60 text-cyan-300' : 'bg-gray-900 border-gray-700 text-gray-400 hover:border-gray-500'}`;
+
+export const SyncSettingsDialog: React.FC<Props> = (props) => {
+    if (!props.isOpen) return null;
+    return <SyncSettingsForm {...props} />;
+};
+
+// Mounted only while open, so local state starts from the current options each time
+const SyncSettingsForm: React.FC<Props> = ({ onClose, options, onSave, bagService, isFileLoaded }) => {
+    const [local, setLocal] = useState<SyncOptions>(options);
+
+    const masterCandidates = Object.keys(bagService.topicMetadata)
+        .filter(t => /Image|JointState/.test(bagService.topicMetadata[t].msgType))
+        .sort();
+
+    const timingTopics = Object.keys(bagService.topicMetadata).sort();
+
+    const setTiming = (topic: string, patch: Partial<TopicTiming>) => {
+        const next = { ...(local.topicTiming[topic] ?? DEFAULT_TOPIC_TIMING), ...patch };
+        const topicTiming = { ...local.topicTiming };
+        // Keep only topics that actually deviate, so saved options stay small
+        if (!next.useHeaderStamp && next.offsetMs === 0) delete topicTiming[topic];
+        else topicTiming[topic] = next;
+        setLocal({ ...local, topicTiming });
+    };
+
+    const isValid = (local.mode === 'fixed-rate' ? local.rateHz > 0 : local.masterTopic !== '')
+        && Object.values(local.topicTiming).every(t => Number.isFinite(t.offsetMs));
+
+    return (
+        <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/80 backdrop-blur-sm">
+            <div className="bg-[#111] border border-gray-700 rounded-xl w-[560px] max-h-[90vh] flex flex-col shadow-2xl">
+
+                {/* Header */}
+                <div className="flex justify-between items-center p-4 border-b border-gray-800 shrink-0">
+                    <h2 className="text-lg font-bold text-gray-200">Timeline Sync</h2>
+                    <button onClick={onClose} className="text-gray-500 hover:text-white">✕</button>
+                </div>
+
+                <div className="p-6 space-y-6 overflow-y-auto">
+                    {/* Frame Source */}
+                    <div>
+                        <label className="block text-xs font-bold text-cyan-500 uppercase mb-2">Frames</label>
+                        <div className="flex gap-2">
+                            {MODES.map(m => (
+                                <button key={m.value} onClick={() => setLocal({ ...local, mode: m.value })} className={toggleClass(local.mode === m.value)}>
+                                    <span className="block text-xs font-bold">{m.label}</span>
+                                    <span className="block text-[10px] text-gray-500">{m.hint}</span>
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+
+                    {local.mode === 'fixed-rate' ? (
+                        <div>
+                            <label className="block text-xs font-bold text-cyan-500 uppercase mb-2">Frame Rate (Hz)</label>
+                            <div className="flex gap-2 items-center">
+                                {RATE_PRESETS.map(hz => (
+                                    <button key={hz} onClick={() => setLocal({ ...local, rateHz: hz })}
+                                        className={`px-3 py-1.5 rounded border text-[10px] font-bold transition-all ${local.rateHz === hz ? 'bg-cyan-900/30 border-cyan-500/60 text-cyan-300' : 'bg-gray-800 border-gray-700 text-gray-400 hover:border-gray-500'}`}>
+                                        {hz}
+                                    </button>
+                                ))}
+                                <input
+                                    type="number" min={1} step={1}
+                                    value={local.rateHz}
+                                    onChange={e => setLocal({ ...local, rateHz: Number(e.target.value) })}
+                                    className="w-24 bg-gray-900 border border-gray-700 rounded px-3 py-1.5 text-sm text-gray-300 focus:border-cyan-500 outline-none font-mono"
+                                />
+                            </div>
+                        </div>
+                    ) : (
+                        <div>
+                            <label className="block text-xs font-bold text-cyan-500 uppercase mb-2">Master Topic</label>
+                            {masterCandidates.length > 0 ? (
+                                <select
+                                    value={local.masterTopic}
+                                    onChange={e => setLocal({ ...local, masterTopic: e.target.value })}
+                                    className="w-full bg-gray-900 border border-gray-700 rounded px-3 py-2 text-sm text-gray-300 focus:border-cyan-500 outline-none font-mono cursor-pointer"
+                                >
+                                    <option value="">- select topic -</option>
+                                    {masterCandidates.map(t => <option key={t} value={t}>{t}</option>)}
+                                </select>
+                            ) : (
+                                <input
+                                    type="text"
+                                    value={local.masterTopic}
+                                    onChange={e => setLocal({ ...local, masterTopic: e.target.value })}
+                                    className="w-full bg-gray-900 border border-gray-700 rounded px-3 py-2 text-sm text-gray-300 focus:border-cyan-500 outline-none font-mono"
+                                    placeholder="/camera/color/image_raw"
+                                />
+                            )}
+                            <p className="text-[10px] text-gray-500 mt-1">Image or JointState topic. Every message after the start of the timeline becomes a frame.</p>
+                        </div>
+                    )}
+
+                    {/* Matching */}
+                    <div>
+                        <label className="block text-xs font-bold text-cyan-500 uppercase mb-2">Other Topics</label>
+                        <div className="flex gap-2">
+                            {MATCHINGS.map(m => (
+                                <button key={m.value} onClick={() => setLocal({ ...local, matching: m.value })} className={toggleClass(local.matching === m.value)}>
+                                    <span className="block text-xs font-bold">{m.label}</span>
+                                    <span className="block text-[10px] text-gray-500">{m.hint}</span>
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+
+                    {/* Per-topic Timing */}
+                    <div>
+                        <label className="block text-xs font-bold text-cyan-500 uppercase mb-2">Per-topic Timing</label>
+                        {timingTopics.length > 0 ? (
+                            <div className="max-h-48 overflow-y-auto border border-gray-800 rounded">
+                                <table className="w-full text-[11px]">
+                                    <thead className="bg-gray-900 text-gray-500 sticky top-0">
+                                        <tr>
+                                            <th className="text-left font-bold px-3 py-1.5">Topic</th>
+                                            <th className="font-bold px-2 py-1.5">header.stamp</th>
+                                            <th className="font-bold px-3 py-1.5">Offset (ms)</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {timingTopics.map(topic => {
+                                            const timing = local.topicTiming[topic] ?? DEFAULT_TOPIC_TIMING;
+                                            return (
+                                                <tr key={topic} className="border-t border-gray-800">
+                                                    <td className="px-3 py-1 font-mono text-gray-300 truncate max-w-[260px]" title={topic}>{topic}</td>
+                                                    <td className="px-2 py-1 text-center">
+                                                        <input
+                                                            type="checkbox"
+                                                            checked={timing.useHeaderStamp}
+                                                            onChange={e => setTiming(topic, { useHeaderStamp: e.target.checked })}
+                                                            className="accent-cyan-500 cursor-pointer"
+                                                        />
+                                                    </td>
+                                                    <td className="px-3 py-1">
+                                                        <input
+                                                            type="number" step={1}
+                                                            value={timing.offsetMs}
+                                                            onChange={e => setTiming(topic, { offsetMs: Number(e.target.value) })}
+                                                            className="w-20 bg-gray-900 border border-gray-700 rounded px-2 py-0.5 text-gray-300 focus:border-cyan-500 outline-none font-mono"
+                                                        />
+                                                    </td>
+                                                </tr>
+                                            );
+                                        })}
+                                    </tbody>
+                                </table>
+                            </div>
+                        ) : (
+                            <p className="text-[10px] text-gray-500">Load a recording to adjust timing per topic.</p>
+                        )}
+                        <p className="text-[10px] text-gray-500 mt-1">Align on the sensor's header.stamp instead of the record time, and shift a topic by a fixed offset to compensate for latency.</p>
+                    </div>
+                </div>
+
+                {/* Footer */}
+                <div className="p-4 border-t border-gray-800 flex justify-between items-center shrink-0 bg-[#0e0e0e] rounded-b-xl">
+                    <span className="text-[10px] text-amber-500/80">
+                        {isFileLoaded ? 'Applying re-aligns the loaded recording and resets annotations.' : ''}
+                    </span>
+                    <div className="flex gap-3">
+                        <button onClick={onClose} className="px-4 py-2 rounded text-xs font-bold text-gray-300 hover:bg-gray-800 transition-colors">Cancel</button>
+                        <button disabled={!isValid} onClick={() => { onSave(local); onClose(); }} className="px-6 py-2 rounded bg-cyan-600 hover:bg-cyan-500 disabled:opacity-40 disabled:hover:bg-cyan-600 text-white text-xs font-bold shadow-lg shadow-cyan-900/20 transition-colors">Apply</button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,53 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { depthAt, type DepthSamples } from '../../services/DepthDisplay';
+
+interface Props {
+    bitmap: ImageBitmap;
+    label: string;
+    depth?: DepthSamples; // Enables the depth readout under the cursor
+}
+
+/** Draws a decoded frame image at its native resolution; CSS scales the canvas to the tile. */
+export const FrameCanvas: React.FC<Props> = ({ bitmap, label, depth }) => {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const [hover, setHover] = useState<{ x: number; y: number } | null>(null);
+
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        // A bitmap closed by cache eviction reports a zero size and can't be drawn
+        if (!canvas || bitmap.width === 0) return;
+        if (canvas.width !== bitmap.width) canvas.width = bitmap.width;
+        if (canvas.height !== bitmap.height) canvas.height = bitmap.height;
+        canvas.getContext('2d')?.drawImage(bitmap, 0, 0);
+    }, [bitmap]);
+
+    // Undo the object-contain letterboxing to find the image pixel under the cursor
+    const handleMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
+        if (!depth) return;
+        const rect = e.currentTarget.getBoundingClientRect();
+        const scale = Math.min(rect.width / depth.width, rect.height / depth.height);
+        const x = Math.floor((e.clientX - rect.left - (rect.width - depth.width * scale) / 2) / scale);
+        const y = Math.floor((e.clientY - rect.top - (rect.height - depth.height * scale) / 2) / scale);
+        setHover(x >= 0 && y >= 0 && x < depth.width && y < depth.height ? { x, y } : null);
+    };
+
+    const value = depth && hover ? depthAt(depth, hover.x, hover.y) : null;
+
+    return (
+        <>
+            <canvas
+                ref={canvasRef}
+                role="img"
+                aria-label={label}
+                onMouseMove={handleMouseMove}
+                onMouseLeave={() => setHover(null)}
+                className={`w-full h-full object-contain select-none ${depth ? 'cursor-crosshair' : ''}`}
+            />
+            {depth && hover && (
+                <div className="absolute bottom-2 right-2 px-2 py-1 bg-black/80 backdrop-blur text-[10px] font-mono text-gray-200 border border-white/5 rounded shadow-lg z-10 pointer-events-none select-none">
+                    ({hover.x}, {hover.y}) {value === null ? <span className="text-gray-500">no reading</span> : `${value.toFixed(0)} mm`}
+                </div>
+            )}
+        </>
+    );
+};
@@ -0,0 +1,26 @@
+import React from 'react';
+import type { ProjectedOverlay } from '../../services/CameraProjection';
+
+interface Props {
+    overlay: ProjectedOverlay;
+    tipColors: Record<string, string>; // Link -> color, as its trail in the 3D view
+}
+
+/** Robot points projected into a camera image, scaled with the image as `object-contain` does. */
+export const ProjectionOverlay: React.FC<Props> = ({ overlay, tipColors }) => {
+    const { width, height } = overlay;
+    const radius = Math.max(width, height) / 120;
+    return (
+        <svg viewBox={`0 0 ${width} ${height}`} preserveAspectRatio="xMidYMid meet" className="absolute inset-0 w-full h-full pointer-events-none select-none">
+            {overlay.bones.map(([u1, v1, u2, v2], i) => (
+                <line key={i} x1={u1} y1={v1} x2={u2} y2={v2} stroke="#e5e7eb" strokeOpacity={0.7} strokeWidth={radius / 3} strokeLinecap="round" />
+            ))}
+            {overlay.tips.map(tip => (
+                <g key={tip.link}>
+                    <circle cx={tip.u} cy={tip.v} r={radius} fill="none" stroke={tipColors[tip.link]} strokeWidth={radius / 2.5} />
+                    <circle cx={tip.u} cy={tip.v} r={radius / 4} fill={tipColors[tip.link]} />
+                </g>
+            ))}
+        </svg>
+    );
+};
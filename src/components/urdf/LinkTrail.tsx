@@ -0,0 +1,44 @@
+import { useMemo } from 'react';
+import { Line } from '@react-three/drei';
+import type { LinkTrajectory } from '../../services/Kinematics';
+
+interface Props {
+    trajectory: LinkTrajectory;
+    frameIndex: number; // Marked with a dot
+    color: string;
+}
+
+/** A link's path over the episode, in the robot's root frame. Frames without joint data break the line. */
+export function LinkTrail({ trajectory, frameIndex, color }: Props) {
+    const runs = useMemo(() => {
+        const { positions } = trajectory;
+        const result: [number, number, number][][] = [];
+        let run: [number, number, number][] = [];
+        for (let i = 0; i < positions.length / 3; i++) {
+            const point: [number, number, number] = [positions[i * 3], positions[i * 3 + 1], positions[i * 3 + 2]];
+            if (point.every(Number.isFinite)) {
+                run.push(point);
+            } else if (run.length > 0) {
+                result.push(run);
+                run = [];
+            }
+        }
+        if (run.length > 0) result.push(run);
+        return result.filter(r => r.length > 1);
+    }, [trajectory]);
+
+    const current = trajectory.positions.subarray(frameIndex * 3, frameIndex * 3 + 3);
+    const hasCurrent = current.length === 3 && Array.from(current).every(Number.isFinite);
+
+    return (
+        <>
+            {runs.map((points, i) => <Line key={i} points={points} color={color} lineWidth={1.5} />)}
+            {hasCurrent && (
+                <mesh position={[current[0], current[1], current[2]]}>
+                    <sphereGeometry args={[0.008, 12, 12]} />
+                    <meshBasicMaterial color={color} />
+                </mesh>
+            )}
+        </>
+    );
+}
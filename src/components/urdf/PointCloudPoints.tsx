@@ -0,0 +1,46 @@
+import { useEffect, useMemo } from 'react';
+import * as THREE from 'three';
+import type { PointCloudData } from '../../services/PointCloud';
+
+interface Props {
+    cloud: PointCloudData;
+    pointSizeMm: number;
+    decimation: number; // Keep every n-th point
+}
+
+const DEFAULT_COLOR = '#22d3ee';
+
+/** One PointCloud2 frame as a Three.js `Points` object, in the cloud's own coordinates. */
+export function PointCloudPoints({ cloud, pointSizeMm, decimation }: Props) {
+    const geometry = useMemo(() => {
+        const step = Math.max(1, Math.floor(decimation));
+        const count = Math.ceil(cloud.count / step);
+        const positions = step === 1 ? cloud.positions : new Float32Array(count * 3);
+        const colors = step === 1 || !cloud.colors ? cloud.colors : new Uint8Array(count * 3);
+        if (step > 1) {
+            for (let i = 0; i < count; i++) {
+                const src = i * step * 3;
+                positions.set(cloud.positions.subarray(src, src + 3), i * 3);
+                colors?.set(cloud.colors!.subarray(src, src + 3), i * 3);
+            }
+        }
+
+        const g = new THREE.BufferGeometry();
+        g.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+        if (colors) g.setAttribute('color', new THREE.BufferAttribute(colors, 3, true));
+        return g;
+    }, [cloud, decimation]);
+
+    useEffect(() => () => geometry.dispose(), [geometry]);
+
+    return (
+        <points geometry={geometry}>
+            <pointsMaterial
+                size={pointSizeMm / 1000}
+                sizeAttenuation
+                vertexColors={cloud.colors !== null}
+                color={cloud.colors ? '#ffffff' : DEFAULT_COLOR}
+            />
+        </points>
+    );
+}
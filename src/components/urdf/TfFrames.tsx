@@ -0,0 +1,64 @@
+import { useEffect, useMemo } from 'react';
+import { Html } from '@react-three/drei';
+import * as THREE from 'three';
+import type { Pose } from '../../services/TransformBuffer';
+
+interface FrameAxesProps {
+    frame: string;
+    pose: Pose;
+}
+
+/** RGB = XYZ axes of a TF frame, with its name. */
+export function FrameAxes({ frame, pose }: FrameAxesProps) {
+    return (
+        <group position={pose.translation} quaternion={pose.rotation}>
+            <axesHelper args={[0.1]} />
+            <Html position={[0, 0, 0.02]} center className="pointer-events-none select-none">
+                <span className="px-1 rounded bg-black/70 text-[9px] font-mono text-gray-300 whitespace-nowrap">{frame}</span>
+            </Html>
+        </group>
+    );
+}
+
+interface CameraFrustumProps {
+    label: string;
+    pose: Pose;
+}
+
+// Nominal pinhole until the camera's intrinsics are known
+const FRUSTUM_DEPTH = 0.15;
+const FRUSTUM_HFOV = 60 * Math.PI / 180;
+const FRUSTUM_ASPECT = 4 / 3;
+
+/** A camera's viewing pyramid. Image frames follow the optical convention: z forward, x right, y down. */
+export function CameraFrustum({ label, pose }: CameraFrustumProps) {
+    const geometry = useMemo(() => {
+        const x = FRUSTUM_DEPTH * Math.tan(FRUSTUM_HFOV / 2);
+        const y = x / FRUSTUM_ASPECT;
+        const z = FRUSTUM_DEPTH;
+        const corners = [[-x, -y, z], [x, -y, z], [x, y, z], [-x, y, z]];
+        const segments = corners.flatMap((c, i) => [
+            0, 0, 0, ...c, // Apex to corner
+            ...c, ...corners[(i + 1) % 4] // Image rectangle
+        ]);
+        // Tick above the image's top edge marks which way is up
+        segments.push(-x / 3, -y, z, 0, -y * 1.4, z, 0, -y * 1.4, z, x / 3, -y, z);
+
+        const g = new THREE.BufferGeometry();
+        g.setAttribute('position', new THREE.Float32BufferAttribute(segments, 3));
+        return g;
+    }, []);
+
+    useEffect(() => () => geometry.dispose(), [geometry]);
+
+    return (
+        <group position={pose.translation} quaternion={pose.rotation}>
+            <lineSegments geometry={geometry}>
+                <lineBasicMaterial color="#f59e0b" />
+            </lineSegments>
+            <Html position={[0, 0, FRUSTUM_DEPTH]} center className="pointer-events-none select-none">
+                <span className="px-1 rounded bg-black/70 text-[9px] font-mono text-amber-300 whitespace-nowrap">{label}</span>
+            </Html>
+        </group>
+    );
+}
@@ -1,10 +1,16 @@
-import { useState, useRef, useEffect, useCallback, useMemo } from 'react';
-import { Canvas, useThree } from '@react-three/fiber';
+import { useState, useRef, useEffect, useCallback, useMemo, type ReactNode } from 'react';
+import { Canvas } from '@react-three/fiber';
 import { OrbitControls, Grid } from '@react-three/drei';
 import * as THREE from 'three';
 import URDFLoader from './URDFLoader'; // Ensure this handles package:// correctly or use a patched version
 import type { URDFRobot } from './URDFClasses';
 import type { JointStateMsg } from '../../services/BagService';
+import { compileJointMapping, TRAIL_COLORS, type LinkTrajectory } from '../../services/Kinematics';
+import type { PointCloudData } from '../../services/PointCloud';
+import { IDENTITY_POSE, type Pose, type TransformBuffer } from '../../services/TransformBuffer';
+import { LinkTrail } from './LinkTrail';
+import { PointCloudPoints } from './PointCloudPoints';
+import { CameraFrustum, FrameAxes } from './TfFrames';
 
 // --- Types ---
 export interface UrdfConfig {
@@ -18,10 +24,13 @@ interface URDFModelProps {
     path: string;
     modelRef: React.RefObject<URDFRobot | null>;
     onReady: () => void;
+    transforms?: TransformBuffer;
+    timeMs: number;
+    children?: ReactNode; // Drawn in the robot's root link frame
 }
 
-function URDFModel({ path, modelRef, onReady }: URDFModelProps) {
-    const { scene } = useThree();
+function URDFModel({ path, modelRef, onReady, transforms, timeMs, children }: URDFModelProps) {
+    const [robot, setRobot] = useState<URDFRobot | null>(null);
 
     useEffect(() => {
         const loader = new URDFLoader();
@@ -31,62 +40,121 @@ function URDFModel({ path, modelRef, onReady }: URDFModelProps) {
         // Optional: specific package path handling if your URDFs use package://
         // loader.packages = { 'piper_description': '/urdf/piper_description' };
 
-        let urdfModel: URDFRobot | null = null;
+        let cancelled = false;
 
         loader.load(path, (urdf) => {
-            urdfModel = urdf;
-            // Default orientation adjustment (can be exposed to settings later)
-            urdf.rotation.x = -Math.PI / 2;
-            urdf.position.y = -0.2;
-            
+            if (cancelled) return;
             urdf.traverse((child) => {
                 if ((child as THREE.Mesh).isMesh) {
                     (child as THREE.Mesh).castShadow = true;
                     (child as THREE.Mesh).receiveShadow = true;
                 }
             });
-            scene.add(urdf);
             modelRef.current = urdf;
+            setRobot(urdf);
             onReady();
         });
 
         return () => {
-            if (urdfModel) scene.remove(urdfModel);
+            cancelled = true;
+            setRobot(null);
             modelRef.current = null;
         };
-    }, [path, scene, modelRef, onReady]);
+    }, [path, modelRef, onReady]);
 
-    return null;
+    if (!robot) return null;
+    // The root link sits at its TF pose, or at the origin if TF doesn't have it
+    const pose = transforms?.lookup(robot.urdfName, timeMs) ?? IDENTITY_POSE;
+    return (
+        <group position={pose.translation} quaternion={pose.rotation}>
+            <primitive object={robot} />
+            {children}
+        </group>
+    );
+}
+
+interface ToggleListProps {
+    label: string;
+    title: string;
+    items: string[];
+    selected: string[];
+    onChange: (selected: string[]) => void;
+}
+
+function ToggleList({ label, title, items, selected, onChange }: ToggleListProps) {
+    const [isOpen, setIsOpen] = useState(false);
+    return (
+        <div className="flex flex-col items-start">
+            {isOpen && (
+                <div className="mb-1 max-h-48 w-56 overflow-y-auto p-1 bg-black/80 backdrop-blur border border-white/5 rounded shadow-lg">
+                    {items.map(item => (
+                        <label key={item} className="flex items-center gap-2 px-1 py-0.5 text-gray-300 hover:bg-white/5 rounded cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={selected.includes(item)}
+                                onChange={e => onChange(e.target.checked ? [...selected, item] : selected.filter(i => i !== item))}
+                                className="accent-cyan-500"
+                            />
+                            <span className="truncate" title={item}>{item}</span>
+                        </label>
+                    ))}
+                </div>
+            )}
+            <button onClick={() => setIsOpen(!isOpen)} className="px-2 py-1 bg-black/70 backdrop-blur border border-white/5 rounded text-gray-400 hover:text-white" title={title}>
+                {label} {selected.length > 0 && `(${selected.length})`}
+            </button>
+        </div>
+    );
 }
 
 interface UrdfViewerProps {
     jointData: Record<string, JointStateMsg> | null;
     config: UrdfConfig;
+    pointClouds?: Record<string, PointCloudData>; // Clouds of the current frame, by topic
+    transforms?: TransformBuffer;
+    cameraFrames?: Record<string, string>; // Image topic -> its TF frame, drawn as a frustum
+    timeMs?: number; // Timestamp of the current frame, for TF lookups
+    frameIndex?: number;
+    trails?: LinkTrajectory[]; // FK paths of the trail links over the episode
+    trailLinks?: string[];
+    onTrailLinksChange?: (links: string[]) => void;
+    onRobotLoaded?: (robot: URDFRobot) => void; // Receives a copy, free to pose for FK
 }
 
-const UrdfViewer = ({ jointData, config }: UrdfViewerProps) => {
+const DECIMATION_STEPS = [1, 2, 4, 8, 16];
+
+const UrdfViewer = ({ jointData, config, pointClouds, transforms, cameraFrames, timeMs = 0, frameIndex = 0, trails = [], trailLinks = [], onTrailLinksChange, onRobotLoaded }: UrdfViewerProps) => {
     const modelRef = useRef<URDFRobot | null>(null);
     const [isModelReady, setIsModelReady] = useState(false);
+    const [pointSizeMm, setPointSizeMm] = useState(5);
+    const [decimation, setDecimation] = useState(1);
+    const [shownFrames, setShownFrames] = useState<string[]>([]);
+    const [linkNames, setLinkNames] = useState<string[]>([]);
+
+    const frameIds = transforms?.frameIds ?? [];
+    const poseOf = (frame: string) => transforms?.lookup(frame, timeMs) ?? null;
+    const cameras = Object.entries(cameraFrames ?? {})
+        .map(([topic, frame]) => ({ topic, pose: frame ? poseOf(frame) : null }))
+        .filter((c): c is { topic: string; pose: Pose } => c.pose !== null);
+
+    const clouds = Object.entries(pointClouds ?? {});
+    const pointCount = clouds.reduce((n, [, cloud]) => n + Math.ceil(cloud.count / decimation), 0);
 
     // Create the processor function from the string
-    const processJoints = useMemo(() => {
-        try {
-            // Safety: This is running local user code.
-            // Function signature: (data) => { return { ... } }
-            return new Function('data', config.mappingCode);
-        } catch (e) {
-            console.error("Error parsing joint mapping code:", e);
-            return null;
-        }
-    }, [config.mappingCode]);
+    const processJoints = useMemo(() => compileJointMapping(config.mappingCode), [config.mappingCode]);
 
-    const handleModelReady = useCallback(() => setIsModelReady(true), []);
+    const handleModelReady = useCallback(() => {
+        setIsModelReady(true);
+        if (!modelRef.current) return;
+        setLinkNames(Object.keys(modelRef.current.links).sort());
+        onRobotLoaded?.(modelRef.current.clone());
+    }, [onRobotLoaded]);
 
     useEffect(() => {
         if (modelRef.current && jointData && isModelReady && processJoints) {
             try {
                 // 1. Execute User Code
-                const targetJointValues = processJoints(jointData) as Record<string, number>;
+                const targetJointValues = processJoints(jointData);
                 
                 // 2. Apply to URDF
                 if (targetJointValues) {
@@ -110,13 +178,70 @@ const UrdfViewer = ({ jointData, config }: UrdfViewerProps) => {
                 <directionalLight position={[5, 10, 5]} castShadow intensity={1} />
                 <Grid infiniteGrid fadeDistance={20} sectionColor="#444" cellColor="#222"/>
                 
-                <URDFModel 
-                    path={config.urdfUrl} 
-                    modelRef={modelRef} 
-                    onReady={handleModelReady} 
-                />
+                {/* TF root frame: ROS is z-up, three.js y-up */}
+                <group rotation={[-Math.PI / 2, 0, 0]} position={[0, -0.2, 0]}>
+                    <URDFModel 
+                        path={config.urdfUrl} 
+                        modelRef={modelRef} 
+                        onReady={handleModelReady} 
+                        transforms={transforms}
+                        timeMs={timeMs}
+                    >
+                        {trails.map((trajectory, i) => (
+                            <LinkTrail key={trajectory.link} trajectory={trajectory} frameIndex={frameIndex} color={TRAIL_COLORS[i % TRAIL_COLORS.length]} />
+                        ))}
+                    </URDFModel>
+                    {clouds.map(([topic, cloud]) => {
+                        const pose = poseOf(cloud.frameId) ?? IDENTITY_POSE;
+                        return (
+                            <group key={topic} position={pose.translation} quaternion={pose.rotation}>
+                                <PointCloudPoints cloud={cloud} pointSizeMm={pointSizeMm} decimation={decimation} />
+                            </group>
+                        );
+                    })}
+                    {shownFrames.map(frame => {
+                        const pose = poseOf(frame);
+                        return pose && <FrameAxes key={frame} frame={frame} pose={pose} />;
+                    })}
+                    {cameras.map(({ topic, pose }) => <CameraFrustum key={topic} label={topic} pose={pose} />)}
+                </group>
                 <OrbitControls makeDefault />
             </Canvas>
+
+            <div className="absolute bottom-2 left-2 z-10 flex items-end gap-2 text-[10px] font-mono">
+                {linkNames.length > 0 && onTrailLinksChange && (
+                    <ToggleList label="Trails" title="Draw the path of a link over the whole episode" items={linkNames} selected={trailLinks} onChange={onTrailLinksChange} />
+                )}
+                {frameIds.length > 0 && (
+                    <ToggleList label="TF frames" title="Show coordinate axes of TF frames" items={frameIds} selected={shownFrames} onChange={setShownFrames} />
+                )}
+            </div>
+
+            {clouds.length > 0 && (
+                <div className="absolute top-2 right-2 flex items-center gap-2 px-2 py-1 bg-black/70 backdrop-blur border border-white/5 rounded text-[10px] text-gray-400 font-mono z-10" title={clouds.map(([topic]) => topic).join('\n')}>
+                    <span>{pointCount.toLocaleString()} pts</span>
+                    <label className="flex items-center gap-1">
+                        size
+                        <input
+                            type="number" min={1} max={50} step={1}
+                            value={pointSizeMm}
+                            onChange={e => setPointSizeMm(Math.max(1, Number(e.target.value) || 1))}
+                            className="w-10 bg-gray-900 border border-gray-700 rounded px-1 text-gray-300 outline-none focus:border-cyan-500"
+                        />
+                        mm
+                    </label>
+                    <label className="flex items-center gap-1">
+                        keep
+                        <select
+                            value={decimation}
+                            onChange={e => setDecimation(Number(e.target.value))}
+                            className="bg-gray-900 border border-gray-700 rounded px-1 text-gray-300 outline-none focus:border-cyan-500"
+                        >
+                            {DECIMATION_STEPS.map(n => <option key={n} value={n}>{n === 1 ? 'all' : `1/${n}`}</option>)}
+                        </select>
+                    </label>
+                </div>
+            )}
         </div>
     );
 };
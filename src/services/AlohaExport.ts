@@ -0,0 +1,165 @@
+// --- ALOHA / ACT HDF5 Export ---
+// One HDF5 file per episode in the layout ALOHA's `record_episodes.py` writes:
+//   /observations/qpos, /observations/qvel, /observations/effort   float64 [T, joints]
+//   /observations/images/<cam>                                     uint8   [T, H, W, 3]
+//   /action                                                        float64 [T, joints]
+//   /observations/ee_pose, /action_ee                              float64 [T, links * 7] (with FK)
+// plus frame times in /observations/timestamp (s) and per-frame annotation labels under /labels.
+// Image datasets are chunked per frame, so each frame is compressed and written on its own.
+
+import type { BagService } from './BagService';
+import type { JointField } from './JointHistory';
+import { bitmapToRgb, cameraName, forEachFrame, jointColumns, jointName, poseColumns, selectJoints, type DatasetExportOptions, type ExportSegment, type FrameLabels } from './DatasetExport';
+
+export interface AlohaExportOptions extends DatasetExportOptions {
+    compress: boolean; // gzip the image datasets
+}
+
+type CameraSizes = Map<string, { width: number; height: number }>;
+
+// h5wasm builds each file in WebAssembly memory, and the finished files stay in the tab until
+// they are downloaded, so an export has to fit in memory twice over
+export const MAX_IMAGE_BYTES = 2 * 1024 ** 3;
+
+export const formatGB = (bytes: number) => `${(bytes / 1024 ** 3).toFixed(1)} GB`;
+
+/** Raw RGB bytes of the image datasets of all episodes, the bulk of an uncompressed export. */
+export function imageBytes(segments: ExportSegment[], cameraSizes: CameraSizes): number {
+    const frameBytes = Array.from(cameraSizes.values()).reduce((n, { width, height }) => n + width * height * 3, 0);
+    return segments.reduce((n, s) => n + (s.end - s.start + 1) * frameBytes, 0);
+}
+
+type H5Module = typeof import('h5wasm');
+
+let h5wasm: Promise<H5Module> | null = null;
+
+// 4 MB of WebAssembly, only fetched once someone exports
+const loadH5wasm = (): Promise<H5Module> => {
+    h5wasm ??= import('h5wasm').then(async module => {
+        await module.ready;
+        return module;
+    });
+    return h5wasm;
+};
+
+/**
+ * Write one file per episode, by file name. Frames are decoded through `bagService` in order,
+ * so this takes about as long as playing the episodes through once. `cameraSizes` (from
+ * `probeCameras`) gives every camera a dataset in every episode, black where it has no image.
+ * Uncompressed exports over `MAX_IMAGE_BYTES` are refused. Aborting `signal` stops between frames.
+ */
+export async function writeAlohaEpisodes(
+    bagService: BagService,
+    episodes: { segment: ExportSegment; labels: FrameLabels }[],
+    cameraSizes: CameraSizes,
+    options: AlohaExportOptions,
+    onProgress: (episode: number, fraction: number) => void,
+    signal?: AbortSignal
+): Promise<Record<string, Uint8Array>> {
+    const bytes = imageBytes(episodes.map(e => e.segment), cameraSizes);
+    if (!options.compress && bytes > MAX_IMAGE_BYTES) {
+        throw new Error(`The images alone take ${formatGB(bytes)} uncompressed, more than the ${formatGB(MAX_IMAGE_BYTES)} an export can hold in memory. Turn on gzip, drop cameras or export fewer subtasks.`);
+    }
+
+    const h5 = await loadH5wasm();
+    const files: Record<string, Uint8Array> = {};
+    for (const [episode, { segment, labels }] of episodes.entries()) {
+        onProgress(episode, 0);
+        const path = `/${segment.name}_${Date.now()}.hdf5`;
+        const file = new h5.File(path, 'w');
+        try {
+            try {
+                await writeEpisode(file, bagService, segment, labels, cameraSizes, options, fraction => onProgress(episode, fraction), signal);
+            } finally {
+                file.close();
+            }
+            files[`${segment.name}.hdf5`] = h5.FS!.readFile(path);
+        } finally {
+            h5.FS!.unlink(path);
+        }
+    }
+    return files;
+}
+
+async function writeEpisode(
+    file: InstanceType<H5Module['File']>,
+    bagService: BagService,
+    segment: ExportSegment,
+    labels: FrameLabels,
+    cameraSizes: CameraSizes,
+    options: AlohaExportOptions,
+    onProgress: (fraction: number) => void,
+    signal?: AbortSignal
+) {
+    const count = segment.end - segment.start + 1;
+    file.create_attribute('sim', 0);
+    file.create_attribute('compress', 0); // Raw pixels, not JPEG buffers
+    file.create_attribute('source_file', bagService.sourceFiles[0]?.name ?? '');
+    file.create_attribute('start_frame', segment.start);
+    file.create_attribute('end_frame', segment.end);
+
+    const observations = file.create_group('observations');
+    const images = observations.create_group('images');
+
+    // --- Images, one frame at a time ---
+    // Chunks never written read back as zeros, so frames without an image are left black
+    const cameras = new Map(Array.from(cameraSizes, ([topic, { width, height }]) => [topic, {
+        dataset: images.create_dataset({
+            name: cameraName(topic),
+            data: new Uint8Array(0),
+            shape: [0, height, width, 3],
+            maxshape: [null, height, width, 3],
+            chunks: [1, height, width, 3],
+            ...(options.compress ? { compression: 'gzip' as const, compression_opts: 4 } : {})
+        }),
+        width,
+        height
+    }]));
+    cameras.forEach(({ dataset, width, height }) => dataset.resize([count, height, width, 3]));
+
+    await forEachFrame(bagService, segment, cameras.size > 0, (i, frame) => {
+        cameras.forEach(({ dataset, width, height }, topic) => {
+            const bitmap = frame?.images[topic];
+            if (bitmap) dataset.write_slice([[i, i + 1]], bitmapToRgb(bitmap, width, height));
+        });
+        onProgress((i + 1) / count);
+    }, signal);
+
+    // --- Joints ---
+    const history = bagService.jointHistory;
+    const joints = selectJoints(history, options);
+
+    (['position', 'velocity', 'effort'] as JointField[]).forEach(field => {
+        const name = { position: 'qpos', velocity: 'qvel', effort: 'effort' }[field];
+        const dataset = observations.create_dataset({ name, data: jointColumns(history, joints.state, field, segment), shape: [count, joints.state.length] });
+        if (joints.state.length > 0) dataset.create_attribute('joint_names', joints.state.map(jointName));
+    });
+
+    const action = file.create_dataset({
+        name: 'action',
+        data: jointColumns(history, joints.action, 'position', segment, options.actionTopic ? 0 : 1),
+        shape: [count, joints.action.length]
+    });
+    if (joints.action.length > 0) action.create_attribute('joint_names', joints.action.map(jointName));
+
+    // --- End-effector pose ---
+    if (options.endEffector) {
+        const pose = poseColumns(history, options.endEffector, segment);
+        if (pose.names.length > 0) {
+            const frame = options.endEffector.robot.urdfName;
+            const eePose = observations.create_dataset({ name: 'ee_pose', data: pose.state, shape: [count, pose.names.length] });
+            const actionEe = file.create_dataset({ name: 'action_ee', data: pose.action, shape: [count, pose.names.length] });
+            [eePose, actionEe].forEach(dataset => {
+                dataset.create_attribute('names', pose.names);
+                dataset.create_attribute('frame', frame);
+            });
+        }
+    }
+
+    // --- Labels ---
+    const labelGroup = file.create_group('labels');
+    labelGroup.create_dataset({ name: 'subtask_prompt', data: labels.prompt });
+    labelGroup.create_dataset({ name: 'subtask_quality', data: labels.quality });
+    labelGroup.create_dataset({ name: 'contact', data: labels.contact });
+    observations.create_dataset({ name: 'timestamp', data: Float64Array.from({ length: count }, (_, i) => bagService.timestamps[segment.start + i] / 1000) });
+}
@@ -0,0 +1,170 @@
+// --- Annotation JSON Import ---
+// Reads back what Export JSON wrote. Frame indices are only valid for the frame timeline
+// they were made on, so spans are moved onto the loaded timeline by time when it differs.
+
+export type SubtaskQuality = 'good' | 'bad' | 'accident' | null;
+
+export interface ImportedSubtask {
+    username: string;
+    start: number;
+    end: number;
+    quality: SubtaskQuality;
+    prompt: string;
+}
+
+export interface ImportedContact {
+    username: string;
+    start: number;
+    end: number;
+}
+
+export interface ImportCheck {
+    label: string;
+    file: string; // As recorded in the JSON
+    loaded: string; // Of the loaded recording
+    ok: boolean;
+}
+
+export interface AnnotationImport {
+    fileName: string; // Of the JSON itself
+    checks: ImportCheck[];
+    remap: 'none' | 'timestamps' | 'estimated'; // How frame indices were carried over
+    subtasks: ImportedSubtask[];
+    contacts: ImportedContact[];
+    notes: string[]; // Everything dropped or clamped, one line each
+}
+
+const QUALITIES: SubtaskQuality[] = ['good', 'bad', 'accident', null];
+
+const isRecord = (v: unknown): v is Record<string, unknown> => v != null && typeof v === 'object' && !Array.isArray(v);
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+
+/**
+ * Check an exported annotation file against the loaded recording and map its spans onto
+ * the recording's frames. Throws if the JSON is not an annotation export at all.
+ */
+export function readAnnotationExport(json: unknown, fileName: string, recording: { fileName: string; timestamps: number[] }): AnnotationImport {
+    if (!isRecord(json) || !Array.isArray(json.subtasks) || !Array.isArray(json.contacts)) {
+        throw new Error('Not an annotation export: expected `subtasks` and `contacts` arrays.');
+    }
+    const { timestamps } = recording;
+    if (timestamps.length === 0) throw new Error('No recording loaded.');
+
+    const metadata = isRecord(json.metadata) ? json.metadata : {};
+    const loadedFrames = timestamps.length;
+    const loadedDuration = timestamps[loadedFrames - 1] - timestamps[0];
+    const interval = medianInterval(timestamps);
+    const fileFrames = isNumber(metadata.totalFrames) ? metadata.totalFrames : null;
+    const fileDuration = isNumber(metadata.duration) ? metadata.duration : null;
+
+    const checks: ImportCheck[] = [
+        { label: 'File', file: typeof json.filename === 'string' ? json.filename : '—', loaded: recording.fileName, ok: json.filename === recording.fileName },
+        { label: 'Frames', file: fileFrames === null ? '—' : String(fileFrames), loaded: String(loadedFrames), ok: fileFrames === loadedFrames },
+        {
+            label: 'Duration',
+            file: fileDuration === null ? '—' : `${(fileDuration / 1000).toFixed(3)}s`,
+            loaded: `${(loadedDuration / 1000).toFixed(3)}s`,
+            // Within a frame, since frame times are rounded to the millisecond
+            ok: fileDuration !== null && Math.abs(fileDuration - loadedDuration) <= Math.max(1, interval)
+        }
+    ];
+
+    // Where each of the file's frames was in time; null keeps indices as they are
+    const spans = [...json.subtasks, ...json.contacts].filter(isRecord);
+    const hasTimes = spans.length > 0 && spans.every(s => isNumber(s.startTime) && isNumber(s.endTime));
+    let remap: AnnotationImport['remap'] = 'none';
+    let frameTime: ((span: Record<string, unknown>, edge: 'start' | 'end') => number) | null = null;
+    if (hasTimes) {
+        remap = 'timestamps';
+        frameTime = (span, edge) => span[`${edge}Time`] as number;
+    } else if (fileFrames !== null && fileFrames !== loadedFrames && fileFrames > 1 && fileDuration !== null) {
+        // Older exports carry no times: assume evenly spaced frames from the same start
+        remap = 'estimated';
+        const start = isNumber(metadata.startTime) ? metadata.startTime : timestamps[0];
+        const period = fileDuration / (fileFrames - 1);
+        frameTime = (span, edge) => start + (span[edge] as number) * period;
+    }
+    if (remap === 'timestamps' && fileFrames === loadedFrames && checks[2].ok) {
+        // Same timeline: the indices are exact, times would only add rounding
+        remap = 'none';
+        frameTime = null;
+    }
+
+    const notes: string[] = [];
+    const place = (span: Record<string, unknown>, what: string): { start: number; end: number } | null => {
+        if (!isNumber(span.start) || !isNumber(span.end)) {
+            notes.push(`${what}: dropped, no start/end frame.`);
+            return null;
+        }
+        let start: number, end: number;
+        if (frameTime) {
+            const startMs = frameTime(span, 'start'), endMs = frameTime(span, 'end');
+            // Half a frame of slack either side, so spans reaching the edges still land on them
+            if (endMs < timestamps[0] - interval / 2 || startMs > timestamps[loadedFrames - 1] + interval / 2) {
+                const rel = (ms: number) => ((ms - timestamps[0]) / 1000).toFixed(3);
+                notes.push(`${what}: dropped, ${rel(startMs)}–${rel(endMs)}s from the start is outside the recording.`);
+                return null;
+            }
+            start = nearestFrame(timestamps, startMs);
+            end = nearestFrame(timestamps, endMs);
+            if (startMs < timestamps[0] - interval / 2 || endMs > timestamps[loadedFrames - 1] + interval / 2) {
+                notes.push(`${what}: clamped to frames ${start}–${end}.`);
+            }
+        } else {
+            if (span.end < 0 || span.start > loadedFrames - 1) {
+                notes.push(`${what}: dropped, frames ${span.start}–${span.end} are outside the recording.`);
+                return null;
+            }
+            start = Math.max(0, Math.round(span.start));
+            end = Math.min(loadedFrames - 1, Math.round(span.end));
+            if (start !== span.start || end !== span.end) notes.push(`${what}: clamped from frames ${span.start}–${span.end} to ${start}–${end}.`);
+        }
+        if (end < start) [start, end] = [end, start];
+        return { start, end };
+    };
+
+    const subtasks = json.subtasks.flatMap((raw: unknown, i: number): ImportedSubtask[] => {
+        if (!isRecord(raw)) {
+            notes.push(`Subtask ${i + 1}: dropped, not an object.`);
+            return [];
+        }
+        const prompt = typeof raw.prompt === 'string' ? raw.prompt : '';
+        const what = `Subtask ${i + 1}${prompt ? ` "${prompt}"` : ''}`;
+        const range = place(raw, what);
+        if (!range) return [];
+        let quality = (raw.quality ?? null) as SubtaskQuality;
+        if (!QUALITIES.includes(quality)) {
+            notes.push(`${what}: unknown quality ${JSON.stringify(raw.quality)} cleared.`);
+            quality = null;
+        }
+        return [{ username: typeof raw.username === 'string' ? raw.username : 'local', ...range, quality, prompt }];
+    });
+
+    const contacts = json.contacts.flatMap((raw: unknown, i: number): ImportedContact[] => {
+        if (!isRecord(raw)) {
+            notes.push(`Contact ${i + 1}: dropped, not an object.`);
+            return [];
+        }
+        const range = place(raw, `Contact ${i + 1}`);
+        return range ? [{ username: typeof raw.username === 'string' ? raw.username : 'local', ...range }] : [];
+    });
+
+    return { fileName, checks, remap, subtasks, contacts, notes };
+}
+
+// Index of the frame closest to `ms`; timestamps are sorted
+function nearestFrame(timestamps: number[], ms: number): number {
+    let lo = 0, hi = timestamps.length - 1;
+    while (lo < hi) {
+        const mid = (lo + hi) >> 1;
+        if (timestamps[mid] < ms) lo = mid + 1;
+        else hi = mid;
+    }
+    return lo > 0 && ms - timestamps[lo - 1] <= timestamps[lo] - ms ? lo - 1 : lo;
+}
+
+function medianInterval(timestamps: number[]): number {
+    if (timestamps.length < 2) return 0;
+    const diffs = timestamps.slice(1).map((t, i) => t - timestamps[i]).sort((a, b) => a - b);
+    return diffs[Math.floor(diffs.length / 2)];
+}
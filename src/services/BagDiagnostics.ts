@@ -0,0 +1,105 @@
+// --- Recording health report, built from the load scan ---
+
+export interface TimeGap {
+    atMs: number; // Time of the message before the gap
+    durationMs: number;
+    frame: number; // Frame shown when the gap starts
+}
+
+export interface TopicDiagnostics {
+    topic: string;
+    type: string;
+    count: number;
+    firstMs: number;
+    lastMs: number;
+    meanHz: number;
+    medianIntervalMs: number;
+    p99Hz: number; // Rate that 99% of message intervals keep up with
+    largestGaps: TimeGap[]; // Longest first
+    outOfOrder: number | null; // header.stamp going backwards; null when payloads were not read
+}
+
+export interface BagDiagnostics {
+    indexOnly: boolean;
+    startMs: number; // First frame
+    endMs: number; // Last frame
+    topics: TopicDiagnostics[];
+    missingTopics: string[]; // Declared in the recording but without any message
+    incompleteStart: boolean; // Some image/joint topic never appeared, so the timeline starts at the first message
+    issues: string[]; // Human-readable summary, empty for a healthy recording
+}
+
+export const EMPTY_DIAGNOSTICS: BagDiagnostics = {
+    indexOnly: false,
+    startMs: 0,
+    endMs: 0,
+    topics: [],
+    missingTopics: [],
+    incompleteStart: false,
+    issues: []
+};
+
+const MAX_GAPS = 3;
+
+// A gap is an issue when it is this many typical intervals long, and at least MIN_GAP_MS
+const GAP_FACTOR = 10;
+const MIN_GAP_MS = 200;
+
+const quantile = (sorted: Float64Array, q: number): number =>
+    sorted.length === 0 ? NaN : sorted[Math.min(sorted.length - 1, Math.floor(q * sorted.length))];
+
+/** Frame shown at `ms`: the last frame at or before it. */
+function frameAt(frameTimes: number[], ms: number): number {
+    let lo = 0;
+    let hi = frameTimes.length - 1;
+    while (lo < hi) {
+        const mid = (lo + hi + 1) >> 1;
+        if (frameTimes[mid] <= ms) lo = mid;
+        else hi = mid - 1;
+    }
+    return lo;
+}
+
+/** Statistics of one topic from its sorted, non-empty message times (ms). */
+export function diagnoseTopic(topic: string, type: string, times: Float64Array, frameTimes: number[], outOfOrder: number | null): TopicDiagnostics {
+    const count = times.length;
+    const intervals = new Float64Array(Math.max(0, count - 1));
+    for (let i = 1; i < count; i++) intervals[i - 1] = times[i] - times[i - 1];
+
+    const gaps = Array.from(intervals.keys())
+        .sort((a, b) => intervals[b] - intervals[a])
+        .slice(0, MAX_GAPS)
+        .map(i => ({ atMs: times[i], durationMs: intervals[i], frame: frameAt(frameTimes, times[i]) }));
+
+    const sorted = intervals.slice().sort();
+    const spanMs = count > 1 ? times[count - 1] - times[0] : 0;
+    const p99Interval = quantile(sorted, 0.99);
+
+    return {
+        topic,
+        type,
+        count,
+        firstMs: times[0],
+        lastMs: times[count - 1],
+        meanHz: spanMs > 0 ? (count - 1) * 1000 / spanMs : 0,
+        medianIntervalMs: quantile(sorted, 0.5),
+        p99Hz: p99Interval > 0 ? 1000 / p99Interval : 0,
+        largestGaps: gaps,
+        outOfOrder
+    };
+}
+
+/** Issues worth filtering an episode on; gaps are judged against each topic's median interval. */
+export function summarizeIssues(topics: TopicDiagnostics[], missingTopics: string[], incompleteStart: boolean): string[] {
+    const issues: string[] = missingTopics.map(t => `${t}: no messages`);
+    if (incompleteStart) issues.push('Not every image/joint topic appeared; the timeline starts at the first message');
+
+    for (const t of topics) {
+        if (t.outOfOrder) issues.push(`${t.topic}: ${t.outOfOrder} out-of-order header.stamp`);
+        const gap = t.largestGaps[0];
+        if (gap && gap.durationMs >= MIN_GAP_MS && gap.durationMs >= GAP_FACTOR * t.medianIntervalMs) {
+            issues.push(`${t.topic}: ${(gap.durationMs / 1000).toFixed(2)} s gap at frame ${gap.frame}`);
+        }
+    }
+    return issues;
+}
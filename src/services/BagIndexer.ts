@@ -0,0 +1,826 @@
+import { diagnoseTopic, summarizeIssues, type BagDiagnostics } from './BagDiagnostics';
+import { Ros1BagWriter } from './BagWriter';
+import { cameraIntrinsicsOf, type CameraInfoMsg, type CameraIntrinsics } from './CameraProjection';
+import type { DepthDisplay, DepthSamples } from './DepthDisplay';
+import { listNumericFields, parseFieldPath, readField, readFieldValue, stringifyField, type PathSegment } from './FieldPaths';
+import { ImageProcessor } from './ImageProcessor';
+import { JointHistory, jointNamesOf, type JointHistoryData } from './JointHistory';
+import { decodePointCloud, type PointCloud2Msg, type PointCloudData } from './PointCloud';
+import { createRecordingReader, MergedReader, type Ros1Connection, type SourcedTopicTimes, type Time } from './readers';
+import { alignToFrames, buildFrameTimes, DEFAULT_SYNC_OPTIONS, effectiveTimeMs, type SyncOptions, type TopicTiming } from './TimelineSync';
+import { TransformBuffer, type TFMessage, type TransformBufferData } from './TransformBuffer';
+
+// --- Interfaces ---
+export interface JointStateMsg {
+    header?: unknown;
+    name: string[];
+    position: number[];
+    velocity: number[];
+    effort: number[];
+}
+
+export interface TopicMetadata {
+    msgType: string;
+    title: string;
+}
+
+export interface SourceFileRange {
+    name: string;
+    startFrame: number;
+    endFrame: number;
+}
+
+export interface LoadProgress {
+    stage: string;
+    percent: number; // 0 - 100
+}
+
+// 'full': read every message up front
+// 'index': build the timeline from the recording's index, fetch payloads per window
+// 'auto': 'index' for large recordings whose format has a usable index
+export type IndexingMode = 'auto' | 'full' | 'index';
+
+/** Everything the UI needs once indexing is done. Structured-cloneable. */
+export interface LoadResult {
+    timestamps: number[];
+    topicMetadata: Record<string, TopicMetadata>;
+    jointHistory: JointHistoryData; // Buffers are transferred, not copied
+    topicTypes: Record<string, string>; // Every topic in the recording
+    sourceFiles: SourceFileRange[];
+    sync: SyncOptions;
+    indexOnly: boolean; // Joint and task data arrive per window via `loadWindow`
+    fieldPaths: string[]; // Numeric leaves of every topic, e.g. `/ft_sensor.wrench.force.z`
+    diagnostics: BagDiagnostics;
+    transforms: TransformBufferData; // /tf and /tf_static, buffers transferred
+    cameraFrames: Record<string, string>; // Image topic -> header.frame_id of its first message
+    cameraInfos: Record<string, CameraIntrinsics>; // CameraInfo topic -> its first message
+    canExportBag: boolean; // Every recording is a ROS 1 bag, so `writeBag` can copy its messages
+}
+
+/** One field path sampled on the frame timeline, NaN where the topic has no message. */
+export interface SignalSeries {
+    path: string;
+    values: Float64Array;
+}
+
+/** Images and point clouds of one frame, plus why a topic has none where it couldn't be decoded. */
+export interface DecodedFrame {
+    images: Record<string, ImageBitmap>;
+    errors: Record<string, string>; // Topic -> message, e.g. 'Unsupported encoding: 16SC1'
+    depth: Record<string, DepthSamples>; // Depth topics only
+    clouds: Record<string, PointCloudData>; // sensor_msgs/PointCloud2 topics
+}
+
+/** What `writeBag` copies into a new bag. Ranges and annotations are given in frames. */
+export interface BagExportRequest {
+    ranges: { startFrame: number; endFrame: number }[]; // End exclusive; ±Infinity for an open end
+    topics: string[];
+    annotations: { topic: string; messages: { frame: number; text: string }[] } | null; // Written as std_msgs/String
+}
+
+/** Joint and task data of a range of frames, read on demand in index-only mode. */
+export interface WindowResult {
+    startFrame: number;
+    jointHistory: JointHistoryData; // Frame 0 of the slice is `startFrame`
+}
+
+// Where each message of a topic sits in time, in ascending order
+interface TopicTimeline {
+    ms: Float64Array; // Effective time used for alignment
+    sec: Uint32Array; // Record time, used to find the message again
+    nsec: Uint32Array;
+    source: Uint16Array; // Index of the recording holding the message
+    frames: Int32Array; // Frame -> message ordinal, -1 for none
+}
+
+interface LightMessage {
+    timestamp: number; // ms, record time or header.stamp plus the topic offset
+    originalTime: Time; // Record time, used to find the message again
+    topic: string;
+    source: number;
+    data?: unknown;
+}
+
+// Share of the overall progress bar for each stage
+const OPEN_PERCENT = 5;
+const SCAN_PERCENT = 85;
+
+// Recordings larger than this are loaded from their index in 'auto' mode
+export const INDEX_MODE_THRESHOLD_BYTES = 2 * 1024 ** 3;
+
+// Out-of-order checks look at header.stamp whatever the topic is aligned on
+const HEADER_STAMP_TIMING: TopicTiming = { useHeaderStamp: true, offsetMs: 0 };
+
+const STRING_CONNECTION: Omit<Ros1Connection, 'topic'> = {
+    type: 'std_msgs/String',
+    md5sum: '992ce8a1687cec8c8bd883ec73ca41d1',
+    messageDefinition: 'string data\n'
+};
+
+// Bounds of a stretch that is open at the start or the end
+const START_OF_TIME: Time = { sec: 0, nsec: 0 };
+const END_OF_TIME: Time = { sec: Infinity, nsec: 0 };
+
+const compareTime = (a: Time, b: Time) => (a.sec - b.sec) || (a.nsec - b.nsec);
+
+const frameIdOf = (message: unknown): string => (message as { header?: { frame_id?: string } }).header?.frame_id ?? '';
+
+/**
+ * Indexing pipeline behind `BagService`. Runs inside the bag worker: scans the
+ * recording, builds the frame timeline and decodes frame images on request.
+ */
+export class BagIndexer {
+    private reader: MergedReader | null = null;
+    private imageProcessor = new ImageProcessor();
+
+    private timestamps: number[] = [];
+    private frameTimes: number[] = []; // Unrounded, for aligning signals loaded later
+    private sync: SyncOptions = DEFAULT_SYNC_OPTIONS;
+    private topicMetadata: Record<string, TopicMetadata> = {};
+    private imageTopics: string[] = [];
+    private jointTopics: string[] = [];
+    private stringTopics: string[] = [];
+    private pointCloudTopics: string[] = [];
+    private tfTopics: string[] = [];
+    private cameraInfoTopics: string[] = [];
+    private cameraFrames: Record<string, string> = {};
+    private timelines = new Map<string, TopicTimeline>();
+    private stringPayloads = new Map<string, unknown[]>(); // Full scan keeps std_msgs/String messages for task segmentation
+    private jointNames = new Map<string, string[]>(); // Index-only mode: columns fixed from the first message
+    private outOfOrder = new Map<string, number>(); // Full scan: header.stamp going backwards, per topic
+    private depthDisplay: Record<string, DepthDisplay> = {}; // Topics not listed use the default
+
+    /**
+     * Load one recording, or several split recordings of the same episode which are
+     * merged into a single timeline. Files are expected in playback order.
+     */
+    async load(files: File[], sync: SyncOptions, indexing: IndexingMode, onProgress: (progress: LoadProgress) => void): Promise<LoadResult> {
+        onProgress({ stage: 'Initializing OpenCV...', percent: 0 });
+        await this.imageProcessor.init();
+        this.reset();
+
+        onProgress({ stage: files.length > 1 ? `Opening ${files.length} Recordings...` : 'Opening Recording...', percent: 1 });
+        this.reader = new MergedReader(files.map(createRecordingReader));
+        await this.reader.open();
+
+        // 1. Analyze Topics
+        onProgress({ stage: 'Analyzing Topics...', percent: OPEN_PERCENT });
+        for (const conn of this.reader.connections) {
+            if (conn.type === 'sensor_msgs/Image' || conn.type === 'sensor_msgs/CompressedImage') {
+                this.topicMetadata[conn.topic] = { msgType: conn.type, title: conn.topic };
+                this.imageTopics.push(conn.topic);
+            }
+            if (conn.type === 'sensor_msgs/JointState') {
+                this.topicMetadata[conn.topic] = { msgType: conn.type, title: conn.topic };
+                this.jointTopics.push(conn.topic);
+            }
+            if (conn.type === 'std_msgs/String') {
+                this.topicMetadata[conn.topic] = { msgType: conn.type, title: conn.topic };
+                this.stringTopics.push(conn.topic);
+            }
+            if (conn.type === 'sensor_msgs/PointCloud2') {
+                this.topicMetadata[conn.topic] = { msgType: conn.type, title: conn.topic };
+                this.pointCloudTopics.push(conn.topic);
+            }
+            if (conn.type === 'tf2_msgs/TFMessage' || conn.type === 'tf/tfMessage') {
+                this.topicMetadata[conn.topic] = { msgType: conn.type, title: conn.topic };
+                this.tfTopics.push(conn.topic);
+            }
+            if (conn.type === 'sensor_msgs/CameraInfo') {
+                this.cameraInfoTopics.push(conn.topic);
+            }
+        }
+
+        // Sort topics for consistent processing
+        this.imageTopics.sort();
+        this.jointTopics.sort();
+        this.pointCloudTopics.sort();
+
+        const targetTopics = [...this.imageTopics, ...this.jointTopics, ...this.stringTopics, ...this.pointCloudTopics, ...this.tfTopics];
+        if (targetTopics.length === 0) throw new Error("No compatible topics found.");
+
+        const totalBytes = files.reduce((n, f) => n + f.size, 0);
+        let indexOnly = indexing === 'index' || (indexing === 'auto' && totalBytes > INDEX_MODE_THRESHOLD_BYTES);
+        if (indexOnly && !this.reader.canReadMessageTimes) {
+            console.warn("Recording format has no usable message index. Falling back to a full scan.");
+            indexOnly = false;
+        }
+        if (indexOnly && Object.values(sync.topicTiming).some(t => t.useHeaderStamp)) {
+            console.warn("header.stamp alignment needs message payloads. Falling back to a full scan.");
+            indexOnly = false;
+        }
+
+        // 2. Extract message times (plus joint and task payloads in a full scan)
+        const messagesByTopic = indexOnly
+            ? await this.readIndex(targetTopics, sync, onProgress)
+            : await this.scanMessages(targetTopics, sync, onProgress);
+
+        const allTimelines = Array.from(this.timelines.values()).filter(t => t.ms.length > 0);
+        if (allTimelines.length === 0) throw new Error("No messages found.");
+
+        // 3. Bootstrapping
+        onProgress({ stage: 'Aligning Timeline...', percent: SCAN_PERCENT });
+
+        // The timeline starts once every image/joint topic has published at least once.
+        // Note: We don't strictly require task_state to be present to start the timeline
+        const vitalTopics = [...this.imageTopics, ...this.jointTopics];
+        let firstFullStateTime: number;
+        const incompleteStart = !vitalTopics.every(t => this.timelines.has(t));
+        if (!incompleteStart) {
+            firstFullStateTime = Math.max(...vitalTopics.map(t => this.timelines.get(t)!.ms[0]));
+        } else {
+            console.warn("Incomplete bag: not all topics appeared. Falling back to simple start.");
+            firstFullStateTime = Math.min(...allTimelines.map(t => t.ms[0]));
+        }
+
+        // 4. Generate Frames (fixed rate or master topic)
+        const endTime = Math.max(...allTimelines.map(t => t.ms[t.ms.length - 1]));
+        const master = this.timelines.get(sync.masterTopic);
+        const frameTimes = buildFrameTimes(firstFullStateTime, endTime, sync, master && Array.from(master.ms));
+        this.timestamps = frameTimes.map(t => Math.round(t));
+        this.frameTimes = frameTimes;
+        this.sync = sync;
+
+        // 5. Match every topic onto the frames
+        const alignedTopics = [...this.imageTopics, ...this.jointTopics, ...this.pointCloudTopics];
+        alignedTopics.forEach((topic, i) => {
+            onProgress({ stage: 'Interpolating Frames...', percent: Math.floor(SCAN_PERCENT + (100 - SCAN_PERCENT) * i / alignedTopics.length) });
+            const timeline = this.timelines.get(topic);
+            if (timeline) timeline.frames = alignToFrames(frameTimes, Array.from(timeline.ms), sync.matching);
+        });
+
+        let jointHistory: JointHistory;
+        let transforms: TransformBuffer;
+        if (indexOnly) {
+            onProgress({ stage: 'Reading Transforms...', percent: 99 });
+            jointHistory = await this.emptyJointHistory(frameTimes.length);
+            transforms = await this.readTransforms();
+            await this.readCameraFrames();
+        } else {
+            transforms = TransformBuffer.fromMessages(this.tfTopics.flatMap(topic => (messagesByTopic.get(topic) ?? []).map(m => ({
+                timeMs: m.timestamp,
+                message: m.data as TFMessage,
+                isStatic: topic.endsWith('tf_static')
+            }))));
+            jointHistory = JointHistory.fromMessages(frameTimes.length, this.jointTopics.filter(t => this.timelines.has(t)).map(topic => ({
+                topic,
+                messages: messagesByTopic.get(topic)!.map(m => m.data as JointStateMsg),
+                indices: this.timelines.get(topic)!.frames
+            })));
+            this.stringTopics.forEach(topic => {
+                const msgs = messagesByTopic.get(topic);
+                if (msgs) this.stringPayloads.set(topic, msgs.map(m => m.data));
+            });
+        }
+
+        return {
+            timestamps: this.timestamps,
+            topicMetadata: this.topicMetadata,
+            jointHistory: jointHistory.toData(),
+            topicTypes: Object.fromEntries(this.reader.connections.map(c => [c.topic, c.type])),
+            sourceFiles: this.buildSourceRanges(files),
+            sync,
+            indexOnly,
+            fieldPaths: this.reader.connections
+                .flatMap(conn => conn.definitions ? listNumericFields(conn.definitions).map(f => `${conn.topic}.${f}`) : [])
+                .sort(),
+            diagnostics: this.buildDiagnostics(targetTopics, incompleteStart, indexOnly),
+            cameraInfos: await this.readCameraInfos(),
+            transforms: transforms.toData(),
+            cameraFrames: this.cameraFrames,
+            canExportBag: this.reader.canReadRawMessages
+        };
+    }
+
+    private buildDiagnostics(targetTopics: string[], incompleteStart: boolean, indexOnly: boolean): BagDiagnostics {
+        const topics = targetTopics
+            .filter(topic => this.timelines.has(topic))
+            .sort()
+            .map(topic => diagnoseTopic(
+                topic,
+                this.topicMetadata[topic].msgType,
+                this.timelines.get(topic)!.ms,
+                this.frameTimes,
+                indexOnly ? null : this.outOfOrder.get(topic) ?? 0
+            ));
+        const missingTopics = targetTopics.filter(topic => !this.timelines.has(topic)).sort();
+
+        return {
+            indexOnly,
+            startMs: this.timestamps[0] ?? 0,
+            endMs: this.timestamps[this.timestamps.length - 1] ?? 0,
+            topics,
+            missingTopics,
+            incompleteStart,
+            issues: summarizeIssues(topics, missingTopics, incompleteStart)
+        };
+    }
+
+    /**
+     * Sample arbitrary numeric fields on the frame timeline. Uses the same timing and
+     * matching policy as the image and joint topics.
+     */
+    async loadSignals(paths: string[]): Promise<SignalSeries[]> {
+        if (!this.reader) return [];
+
+        const byTopic = new Map<string, { path: string; segments: PathSegment[] }[]>();
+        for (const path of paths) {
+            const parsed = parseFieldPath(path);
+            if (!parsed) throw new Error(`Invalid field path: ${path}`);
+            if (!this.reader.connections.some(c => c.topic === parsed.topic)) throw new Error(`Unknown topic in field path: ${path}`);
+            const list = byTopic.get(parsed.topic) ?? [];
+            list.push({ path, segments: parsed.segments });
+            byTopic.set(parsed.topic, list);
+        }
+
+        // One pass over the involved topics, keeping only the requested values
+        const samples = new Map<string, { times: number[]; values: number[][] }>();
+        byTopic.forEach((fields, topic) => samples.set(topic, { times: [], values: fields.map(() => []) }));
+
+        for await (const msg of this.reader.messageIterator({ topics: Array.from(byTopic.keys()) })) {
+            const sample = samples.get(msg.topic)!;
+            sample.times.push(effectiveTimeMs(this.timeToMs(msg.timestamp), msg.message, this.sync.topicTiming[msg.topic]));
+            byTopic.get(msg.topic)!.forEach((field, i) => sample.values[i].push(readFieldValue(msg.message, field.segments)));
+        }
+
+        const result: SignalSeries[] = [];
+        byTopic.forEach((fields, topic) => {
+            const { times, values } = samples.get(topic)!;
+            // header.stamp alignment can reorder messages
+            const order = times.map((_, i) => i).sort((a, b) => times[a] - times[b]);
+            const indices = alignToFrames(this.frameTimes, order.map(i => times[i]), this.sync.matching);
+            fields.forEach((field, k) => result.push({
+                path: field.path,
+                values: Float64Array.from(indices, m => m === -1 ? NaN : values[k][order[m]])
+            }));
+        });
+        return result;
+    }
+
+    // --- Full Scan ---
+    private async scanMessages(targetTopics: string[], sync: SyncOptions, onProgress: (progress: LoadProgress) => void): Promise<Map<string, LightMessage[]>> {
+        const allMessages: LightMessage[] = [];
+        const startMs = this.timeToMs(this.reader!.startTime);
+        const spanMs = Math.max(this.timeToMs(this.reader!.endTime) - startMs, 1);
+        let lastPercent = -1;
+        const lastStamp = new Map<string, number>();
+
+        // Read messages for target topics
+        for await (const msg of this.reader!.messageIterator({ topics: targetTopics })) {
+            const ts = this.timeToMs(msg.timestamp);
+
+            const stamp = effectiveTimeMs(ts, msg.message, HEADER_STAMP_TIMING);
+            if (stamp < (lastStamp.get(msg.topic) ?? -Infinity)) this.outOfOrder.set(msg.topic, (this.outOfOrder.get(msg.topic) ?? 0) + 1);
+            lastStamp.set(msg.topic, stamp);
+
+            const lightMsg: LightMessage = {
+                timestamp: effectiveTimeMs(ts, msg.message, sync.topicTiming[msg.topic]),
+                originalTime: msg.timestamp,
+                topic: msg.topic,
+                source: msg.source
+            };
+
+            // For JointState, we need the full data
+            if (this.jointTopics.includes(msg.topic) || this.stringTopics.includes(msg.topic) || this.tfTopics.includes(msg.topic)) {
+                lightMsg.data = msg.message;
+            }
+            if (this.imageTopics.includes(msg.topic) && !(msg.topic in this.cameraFrames)) {
+                this.cameraFrames[msg.topic] = frameIdOf(msg.message);
+            }
+            // Otherwise, for Image, we only need the timestamp
+            allMessages.push(lightMsg);
+
+            // Messages arrive in time order, so elapsed time approximates progress
+            const percent = Math.floor(OPEN_PERCENT + (SCAN_PERCENT - OPEN_PERCENT) * Math.min(1, (ts - startMs) / spanMs));
+            if (percent !== lastPercent) {
+                lastPercent = percent;
+                onProgress({ stage: 'Scanning Messages...', percent });
+            }
+        }
+
+        // Sort messages by timestamp
+        allMessages.sort((a, b) => a.timestamp - b.timestamp);
+
+        const messagesByTopic = new Map<string, LightMessage[]>();
+        for (const msg of allMessages) {
+            const list = messagesByTopic.get(msg.topic);
+            if (list) list.push(msg);
+            else messagesByTopic.set(msg.topic, [msg]);
+        }
+
+        messagesByTopic.forEach((msgs, topic) => {
+            this.timelines.set(topic, {
+                ms: Float64Array.from(msgs, m => m.timestamp),
+                sec: Uint32Array.from(msgs, m => m.originalTime.sec),
+                nsec: Uint32Array.from(msgs, m => m.originalTime.nsec),
+                source: Uint16Array.from(msgs, m => m.source),
+                frames: new Int32Array(0)
+            });
+        });
+        return messagesByTopic;
+    }
+
+    // --- Index-only Loading ---
+    private async readIndex(targetTopics: string[], sync: SyncOptions, onProgress: (progress: LoadProgress) => void): Promise<Map<string, LightMessage[]>> {
+        let lastPercent = -1;
+        const times = await this.reader!.readMessageTimes(targetTopics, fraction => {
+            const percent = Math.floor(OPEN_PERCENT + (SCAN_PERCENT - OPEN_PERCENT) * fraction);
+            if (percent !== lastPercent) {
+                lastPercent = percent;
+                onProgress({ stage: 'Reading Index...', percent });
+            }
+        });
+
+        times.forEach((t: SourcedTopicTimes, topic) => {
+            const offsetMs = sync.topicTiming[topic]?.offsetMs ?? 0;
+            this.timelines.set(topic, {
+                ms: Float64Array.from(t.sec, (sec, i) => this.timeToMs({ sec, nsec: t.nsec[i] }) + offsetMs),
+                sec: t.sec,
+                nsec: t.nsec,
+                source: t.source,
+                frames: new Int32Array(0)
+            });
+        });
+        return new Map();
+    }
+
+    // TF is small next to the images, so its payloads are read up front even in index-only mode
+    private async readTransforms(): Promise<TransformBuffer> {
+        const messages: { timeMs: number; message: TFMessage; isStatic: boolean }[] = [];
+        if (this.tfTopics.length === 0) return new TransformBuffer();
+        for await (const msg of this.reader!.messageIterator({ topics: this.tfTopics })) {
+            messages.push({
+                timeMs: effectiveTimeMs(this.timeToMs(msg.timestamp), msg.message, this.sync.topicTiming[msg.topic]),
+                message: msg.message as TFMessage,
+                isStatic: msg.topic.endsWith('tf_static')
+            });
+        }
+        return TransformBuffer.fromMessages(messages);
+    }
+
+    private async readCameraFrames() {
+        for (const topic of this.imageTopics.filter(t => this.timelines.has(t))) {
+            for await (const msg of this.reader!.messageIterator({ topics: [topic] })) {
+                this.cameraFrames[topic] = frameIdOf(msg.message);
+                break;
+            }
+        }
+    }
+
+    // Calibration rarely changes within a recording, so the first message stands for all
+    private async readCameraInfos(): Promise<Record<string, CameraIntrinsics>> {
+        const infos: Record<string, CameraIntrinsics> = {};
+        for (const topic of this.cameraInfoTopics) {
+            for await (const msg of this.reader!.messageIterator({ topics: [topic] })) {
+                infos[topic] = cameraIntrinsicsOf(msg.message as CameraInfoMsg);
+                break;
+            }
+        }
+        return infos;
+    }
+
+    // Columns for the whole timeline, filled window by window. Joint names come from each topic's first message.
+    private async emptyJointHistory(frameCount: number): Promise<JointHistory> {
+        const topics = this.jointTopics.filter(t => this.timelines.has(t));
+        for (const topic of topics) {
+            for await (const msg of this.reader!.messageIterator({ topics: [topic] })) {
+                this.jointNames.set(topic, jointNamesOf(msg.message as JointStateMsg));
+                break;
+            }
+        }
+        return JointHistory.fromMessages(frameCount, topics.map(topic => ({
+            topic,
+            messages: [],
+            indices: new Int32Array(frameCount).fill(-1),
+            names: this.jointNames.get(topic) ?? []
+        })));
+    }
+
+    /** Read joint payloads for frames [startFrame, endFrame) in index-only mode. */
+    async loadWindow(startFrame: number, endFrame: number): Promise<WindowResult> {
+        const length = Math.max(0, Math.min(endFrame, this.timestamps.length) - startFrame);
+        const jointSlices: { topic: string; messages: JointStateMsg[]; indices: Int32Array; names: string[] }[] = [];
+
+        for (const topic of this.jointTopics) {
+            const timeline = this.timelines.get(topic);
+            if (!timeline || length === 0) continue;
+
+            const window = await this.readWindowMessages(timeline, topic, startFrame, length);
+            if (window) jointSlices.push({ topic, messages: window.messages as JointStateMsg[], indices: window.indices, names: this.jointNames.get(topic) ?? [] });
+        }
+
+        return { startFrame, jointHistory: JointHistory.fromMessages(length, jointSlices).toData() };
+    }
+
+    /**
+     * Per-frame value of a discrete topic as text, '' before its first message.
+     * `field` is a path inside the message ('' for the whole message).
+     */
+    async loadTaskStates(topic: string, field: string): Promise<string[]> {
+        if (!this.reader) return [];
+        const segments = field ? parseFieldPath(`${topic}.${field}`)?.segments : [];
+        if (!segments) throw new Error(`Invalid field: ${field}`);
+        if (!this.reader.connections.some(c => c.topic === topic)) throw new Error(`Topic ${topic} is not in the recording.`);
+
+        let times: number[];
+        let messages: unknown[];
+        const cached = this.stringPayloads.get(topic);
+        if (cached) {
+            times = Array.from(this.timelines.get(topic)!.ms);
+            messages = cached;
+        } else {
+            const read: { time: number; message: unknown }[] = [];
+            for await (const msg of this.reader.messageIterator({ topics: [topic] })) {
+                read.push({ time: effectiveTimeMs(this.timeToMs(msg.timestamp), msg.message, this.sync.topicTiming[topic]), message: msg.message });
+            }
+            read.sort((a, b) => a.time - b.time);
+            times = read.map(r => r.time);
+            messages = read.map(r => r.message);
+        }
+
+        // Task state is a discrete signal, so it always holds the last value
+        const indices = alignToFrames(this.frameTimes, times, 'hold');
+        return Array.from(indices, m => m === -1 ? '' : stringifyField(readField(messages[m], segments)));
+    }
+
+    /**
+     * A ROS 1 bag with the messages of `topics` inside the ranges, copied unchanged. Latched
+     * topics (e.g. `/tf_static`) also keep their messages from before the first range.
+     */
+    async writeBag(request: BagExportRequest, onProgress: (progress: LoadProgress) => void, signal?: AbortSignal): Promise<Blob> {
+        if (!this.reader) throw new Error('No recording loaded.');
+        if (!this.reader.canReadRawMessages) throw new Error('Only ROS 1 bags can be written back as a bag.');
+        const reader = this.reader;
+
+        const writer = new Ros1BagWriter();
+        const connections = reader.ros1Connections.filter(c => request.topics.includes(c.topic));
+        const ids = new Map(connections.map(c => [c.topic, writer.addConnection(c)]));
+        const latched = connections.filter(c => c.latching).map(c => c.topic);
+        const topics = Array.from(ids.keys());
+
+        // Sorted and merged, so each stretch of the recording is read once and in order
+        const ranges = [...request.ranges].sort((a, b) => a.startFrame - b.startFrame).reduce<{ startFrame: number; endFrame: number }[]>((merged, r) => {
+            const last = merged[merged.length - 1];
+            if (last && r.startFrame <= last.endFrame) last.endFrame = Math.max(last.endFrame, r.endFrame);
+            else merged.push({ ...r });
+            return merged;
+        }, []);
+        if (ranges.length === 0) throw new Error('Nothing to export.');
+        const bounds = ranges.map(r => ({ start: this.recordBoundsAt(r.startFrame), end: this.recordBoundsAt(r.endFrame) }));
+
+        const annotations = (request.annotations?.messages ?? [])
+            .map(({ frame, text }) => ({ time: this.recordBoundsAt(frame).earliest, text }))
+            .sort((a, b) => compareTime(a.time, b.time));
+        const annotationId = request.annotations ? writer.addConnection({ ...STRING_CONNECTION, topic: request.annotations.topic }) : -1;
+        let nextAnnotation = 0;
+        const writeAnnotationsBefore = (time: Time) => {
+            for (; nextAnnotation < annotations.length && compareTime(annotations[nextAnnotation].time, time) <= 0; nextAnnotation++) {
+                writer.write(annotationId, annotations[nextAnnotation].time, serializeString(annotations[nextAnnotation].text));
+            }
+        };
+
+        // The stretch of record time each range reads, from its earliest start to its latest end over the topics
+        const spans = bounds.map(({ start, end }) => ({
+            start,
+            end,
+            from: topics.map(t => start.of(t)).reduce((a, b) => compareTime(a, b) < 0 ? a : b, END_OF_TIME),
+            to: topics.map(t => end.of(t)).reduce((a, b) => compareTime(a, b) > 0 ? a : b, START_OF_TIME)
+        }));
+
+        const recordingStart = this.timeToMs(reader.startTime);
+        const clamp = (time: Time) => Math.min(Math.max(this.timeToMs(time), recordingStart), this.timeToMs(reader.endTime));
+        const totalMs = Math.max(1, spans.reduce((n, s) => n + Math.max(0, clamp(s.to) - clamp(s.from)), 0));
+        let doneMs = 0;
+
+        if (latched.length > 0) {
+            const { start } = bounds[0];
+            const until = latched.map(t => start.of(t)).reduce((a, b) => compareTime(a, b) > 0 ? a : b);
+            if (compareTime(until, START_OF_TIME) > 0) {
+                for await (const msg of reader.rawMessageIterator({ topics: latched })) {
+                    signal?.throwIfAborted();
+                    if (compareTime(msg.timestamp, until) >= 0) break;
+                    if (compareTime(msg.timestamp, start.of(msg.topic)) < 0) writer.write(ids.get(msg.topic)!, msg.timestamp, msg.data);
+                }
+            }
+        }
+
+        for (const { start, end, from, to } of spans) {
+            let count = 0;
+            if (compareTime(from, to) < 0) {
+                for await (const msg of reader.rawMessageIterator({ topics, start: from === START_OF_TIME ? undefined : from })) {
+                    if (compareTime(msg.timestamp, to) >= 0) break;
+                    if (compareTime(msg.timestamp, start.of(msg.topic)) < 0 || compareTime(msg.timestamp, end.of(msg.topic)) >= 0) continue;
+                    if (++count % 500 === 0) {
+                        signal?.throwIfAborted();
+                        onProgress({ stage: 'Writing Bag...', percent: Math.round(100 * (doneMs + clamp(msg.timestamp) - clamp(from)) / totalMs) });
+                    }
+                    writeAnnotationsBefore(msg.timestamp);
+                    writer.write(ids.get(msg.topic)!, msg.timestamp, msg.data);
+                }
+                doneMs += clamp(to) - clamp(from);
+            }
+            writeAnnotationsBefore(end.earliest);
+        }
+        writeAnnotationsBefore(END_OF_TIME);
+        onProgress({ stage: 'Writing Bag...', percent: 100 });
+        return writer.finish();
+    }
+
+    /**
+     * Where frame `frame` starts in record time. Frame times are effective times (header.stamp,
+     * per-topic offsets), so each topic with a timeline starts the frame at its first message
+     * aligned at or after it, and other topics at the earliest of those.
+     */
+    private recordBoundsAt(frame: number): { of: (topic: string) => Time; earliest: Time } {
+        if (frame < 0 || frame >= this.frameTimes.length) {
+            const open = frame < 0 ? START_OF_TIME : END_OF_TIME;
+            return { of: () => open, earliest: open };
+        }
+        const frameMs = this.frameTimes[frame];
+        const byTopic = new Map<string, Time>();
+        let earliest = END_OF_TIME;
+        this.timelines.forEach(({ ms, sec, nsec }, topic) => {
+            if (ms.length === 0) return;
+            let lo = 0;
+            let hi = ms.length;
+            while (lo < hi) {
+                const mid = (lo + hi) >> 1;
+                if (ms[mid] < frameMs) lo = mid + 1;
+                else hi = mid;
+            }
+            if (lo === ms.length) {
+                // Just past the topic's last message, so reading stops there rather than at the end of the recording
+                const last = ms.length - 1;
+                byTopic.set(topic, nsec[last] < 999_999_999 ? { sec: sec[last], nsec: nsec[last] + 1 } : { sec: sec[last] + 1, nsec: 0 });
+                return;
+            }
+            const time = { sec: sec[lo], nsec: nsec[lo] };
+            byTopic.set(topic, time);
+            if (compareTime(time, earliest) < 0) earliest = time;
+        });
+        // A frame after every topic's last message starts where the last of them ended
+        if (earliest === END_OF_TIME) byTopic.forEach(time => { if (earliest === END_OF_TIME || compareTime(time, earliest) > 0) earliest = time; });
+        return { of: topic => byTopic.get(topic) ?? earliest, earliest };
+    }
+
+    // The messages a window of frames points at, read in one pass from the first to the last
+    private async readWindowMessages(timeline: TopicTimeline, topic: string, startFrame: number, length: number): Promise<{ messages: unknown[]; indices: Int32Array } | null> {
+        const frames = timeline.frames.subarray(startFrame, startFrame + length);
+        let minOrd = Infinity;
+        let maxOrd = -1;
+        frames.forEach(m => {
+            if (m === -1) return;
+            if (m < minOrd) minOrd = m;
+            if (m > maxOrd) maxOrd = m;
+        });
+        if (maxOrd === -1) return null;
+
+        // Iterating from a time also yields earlier messages with that same time
+        const { sec, nsec } = timeline;
+        let first = minOrd;
+        while (first > 0 && sec[first - 1] === sec[minOrd] && nsec[first - 1] === nsec[minOrd]) first--;
+
+        const messages: unknown[] = [];
+        const count = maxOrd - first + 1;
+        for await (const msg of this.reader!.messageIterator({ topics: [topic], start: { sec: sec[first], nsec: nsec[first] } })) {
+            messages.push(msg.message);
+            if (messages.length === count) break;
+        }
+
+        const indices = Int32Array.from(frames, m => (m === -1 || m - first >= messages.length) ? -1 : m - first);
+        return { messages, indices };
+    }
+
+    // Assign each frame to the recording whose time span it falls into
+    private buildSourceRanges(files: File[]): SourceFileRange[] {
+        const sourceStarts = files.map(() => Infinity);
+        this.timelines.forEach(({ ms, source }) => {
+            for (let i = 0; i < ms.length; i++) {
+                if (ms[i] < sourceStarts[source[i]]) sourceStarts[source[i]] = ms[i];
+            }
+        });
+
+        let frame = 0;
+        const ranges = files.map((file, i) => {
+            const nextStart = sourceStarts.slice(i + 1).find(t => t !== Infinity) ?? Infinity;
+            const startFrame = frame;
+            while (frame < this.timestamps.length && this.timestamps[frame] < nextStart) frame++;
+            return { name: file.name, startFrame, endFrame: frame - 1 };
+        });
+        return ranges.filter(r => r.endFrame >= r.startFrame);
+    }
+
+    private reset() {
+        this.timestamps = [];
+        this.frameTimes = [];
+        this.sync = DEFAULT_SYNC_OPTIONS;
+        this.topicMetadata = {};
+        this.timelines.clear();
+        this.stringPayloads.clear();
+        this.jointNames.clear();
+        this.outOfOrder.clear();
+        this.imageTopics = [];
+        this.jointTopics = [];
+        this.stringTopics = [];
+        this.pointCloudTopics = [];
+        this.tfTopics = [];
+        this.cameraInfoTopics = [];
+        this.cameraFrames = {};
+        this.reader = null;
+    }
+
+    private timeToMs(t: Time): number {
+        return t.sec * 1000 + Math.round(t.nsec / 1e6);
+    }
+
+    /** Per-topic colormap and range for depth images decoded from now on. */
+    setDepthDisplay(settings: Record<string, DepthDisplay>) {
+        this.depthDisplay = settings;
+    }
+
+    /** The message of `topic` matched to frame `index`, or undefined if the topic has none there. */
+    private async readFrameMessage(topic: string, index: number, signal?: AbortSignal): Promise<unknown> {
+        const timeline = this.timelines.get(topic);
+        const ord = timeline?.frames[index] ?? -1;
+        if (!timeline || ord === -1) return undefined;
+        const exactTime: Time = { sec: timeline.sec[ord], nsec: timeline.nsec[ord] };
+
+        const iter = this.reader!.sources[timeline.source[ord]].messageIterator({
+            topics: [topic],
+            start: exactTime,
+        });
+        for await (const msg of iter) {
+            if (signal?.aborted) return undefined;
+            const msgTime = msg.timestamp;
+            // Only need the first matching message
+            return msgTime.sec === exactTime.sec && msgTime.nsec === exactTime.nsec ? msg.message : undefined;
+        }
+        return undefined;
+    }
+
+    /**
+     * Decode every image and point cloud topic of a frame, ready to draw and to transfer to the page.
+     * Aborting `signal` stops before the next topic is read and rejects with an `AbortError`.
+     */
+    async decodeFrameImages(index: number, signal?: AbortSignal): Promise<DecodedFrame> {
+        const images: Record<string, ImageBitmap> = {};
+        const errors: Record<string, string> = {};
+        const depth: Record<string, DepthSamples> = {};
+        const clouds: Record<string, PointCloudData> = {};
+        if (!this.reader) return { images, errors, depth, clouds };
+        signal?.throwIfAborted();
+
+        const imagePromises = this.imageTopics.map(async (topic) => {
+            if (signal?.aborted) return;
+            try {
+                const message = await this.readFrameMessage(topic, index, signal);
+                if (!message) return;
+                const image = message as { format?: string; data: Uint8Array };
+                const type = this.topicMetadata[topic].msgType;
+                if (type.includes('CompressedImage') && image.format?.includes('compressedDepth')) {
+                    // 16-bit PNG depth the browser can't decode without losing precision
+                    const processed = await this.imageProcessor.processCompressedDepth({ format: image.format, data: image.data }, this.depthDisplay[topic]);
+                    images[topic] = processed.bitmap;
+                    if (processed.depth) depth[topic] = processed.depth;
+                } else if (type.includes('CompressedImage')) {
+                    const format = image.format?.includes('png') ? 'png' : 'jpeg';
+                    // Decoded here rather than by an <img> on the page, off the UI thread
+                    images[topic] = await createImageBitmap(new Blob([image.data as Uint8Array<ArrayBuffer>], { type: `image/${format}` }));
+                } else {
+                    const processed = await this.imageProcessor.processMessage(message, this.depthDisplay[topic]);
+                    images[topic] = processed.bitmap;
+                    if (processed.depth) depth[topic] = processed.depth;
+                }
+            } catch (e) {
+                // Shown on the topic's tile instead of the image
+                errors[topic] = (e as Error).message;
+            }
+        });
+
+        const cloudPromises = this.pointCloudTopics.map(async (topic) => {
+            if (signal?.aborted) return;
+            try {
+                const message = await this.readFrameMessage(topic, index, signal);
+                if (message) clouds[topic] = decodePointCloud(message as PointCloud2Msg);
+            } catch (e) {
+                errors[topic] = (e as Error).message;
+            }
+        });
+        await Promise.all([...imagePromises, ...cloudPromises]);
+
+        if (signal?.aborted) {
+            Object.values(images).forEach(bitmap => bitmap.close());
+            signal.throwIfAborted();
+        }
+        return { images, errors, depth, clouds };
+    }
+}
+
+// std_msgs/String: uint32 length, then UTF-8
+function serializeString(text: string): Uint8Array {
+    const bytes = new TextEncoder().encode(text);
+    const out = new Uint8Array(4 + bytes.length);
+    new DataView(out.buffer).setUint32(0, bytes.length, true);
+    out.set(bytes, 4);
+    return out;
+}
@@ -1,313 +1,391 @@
-import { Bag } from '@foxglove/rosbag';
-import { ImageProcessor } from './ImageProcessor';
+import type { WorkerRequest, WorkerResponse } from '../workers/protocol';
+import { EMPTY_DIAGNOSTICS, type BagDiagnostics } from './BagDiagnostics';
+import type { CameraIntrinsics } from './CameraProjection';
+import type { DepthDisplay, DepthSamples } from './DepthDisplay';
+import type { BagExportRequest, IndexingMode, JointStateMsg, LoadProgress, LoadResult, SourceFileRange, TopicMetadata } from './BagIndexer';
+import { FrameCache } from './FrameCache';
+import { JointHistory } from './JointHistory';
+import type { PointCloudData } from './PointCloud';
+import { DEFAULT_SYNC_OPTIONS, type SyncOptions } from './TimelineSync';
+import { TransformBuffer } from './TransformBuffer';
+
+export type { BagExportRequest, IndexingMode, JointStateMsg, LoadProgress, SourceFileRange, TopicMetadata } from './BagIndexer';
 
 // --- Interfaces ---
-interface Time {
-    sec: number;
-    nsec: number;
-}
-
-interface StringMsg {
-    data: string;
-}
-
-export interface JointStateMsg {
-    header?: any;
-    name: string[];
-    position: number[];
-    velocity: number[];
-    effort: number[];
-}
-
 export type ParsedFrame = {
     timestamp: number;
     index: number;
-    images: Record<string, string>;
+    images: Record<string, ImageBitmap>; // Owned by the frame cache, closed on eviction
+    imageErrors: Record<string, string>; // Topics whose image or point cloud could not be decoded
+    depth: Record<string, DepthSamples>; // Raw readings of depth topics, for the pixel readout
+    clouds: Record<string, PointCloudData>; // PointCloud2 topics, for the 3D view
     jointStateMap: Record<string, JointStateMsg>;
 };
 
-type FrameImageMap = Map<string, Time>;
+export interface LoadOptions {
+    sync?: SyncOptions;
+    indexing?: IndexingMode;
+    onProgress?: (progress: LoadProgress) => void;
+    signal?: AbortSignal;
+}
 
-// --- Browser File Adapter ---
-class BrowserFile {
-    file: File;
-    constructor(file: File) { this.file = file; }
-    async read(offset: number, length: number): Promise<Uint8Array> {
-        const slice = this.file.slice(offset, offset + length);
-        const arrayBuffer = await slice.arrayBuffer();
-        return new Uint8Array(arrayBuffer);
-    }
-    size(): number { return this.file.size; }
+interface PendingRequest {
+    resolve: (msg: WorkerResponse) => void;
+    reject: (err: Error) => void;
+    onProgress?: (progress: LoadProgress) => void;
 }
 
-interface LightMessage {
-    timestamp: number; // ms
-    originalTime: Time;
-    topic: string;
-    data?: any;
+interface FrameDecode {
+    requestId: number | null; // Null while waiting for the frame's joint window
+    cancelled: boolean;
+    promise: Promise<ParsedFrame | null>;
 }
 
+// Index-only mode fetches joint data in blocks of this many frames
+const WINDOW_FRAMES = 900;
+
+// Decoded images kept for scrubbing back and forth, least recently used evicted first
+const FRAME_CACHE_BYTES = 256 * 1024 ** 2;
+
+// Read-ahead in the play direction, and how many of those frames decode at once. Large
+// frames shorten the read-ahead to half the cache, so read-ahead frames don't evict each other
+const PREFETCH_FRAMES = 30;
+const PREFETCH_BUDGET_BYTES = FRAME_CACHE_BYTES / 2;
+const PREFETCH_CONCURRENCY = 2;
+
+// Distributes over the request union so each variant keeps its own fields
+type RequestBody<R = WorkerRequest> = R extends WorkerRequest ? Omit<R, 'id'> : never;
+
+/**
+ * Main-thread facade over the bag worker. Parsing, timeline alignment and image
+ * decoding run in `bag.worker.ts`; this class keeps the loaded timeline, decodes
+ * ahead of the playhead and caches decoded frames for the UI.
+ */
 export class BagService {
-    private bag: Bag | null = null;
-    private imageProcessor = new ImageProcessor();
+    private worker: Worker | null = null;
+    private nextRequestId = 1;
+    private pending = new Map<number, PendingRequest>();
 
     // --- Public State ---
-    public timestamps: number[] = []; 
-    public topicMetadata: Record<string, { msgType: string; title: string }> = {};
-    public historicalJointData: Map<number, Record<string, JointStateMsg>> = new Map();
-    public historicalTaskState: Map<number, string> = new Map();
+    public timestamps: number[] = [];
+    public topicMetadata: Record<string, TopicMetadata> = {};
+    public jointHistory = new JointHistory();
+    public topicTypes: Record<string, string> = {}; // Every topic, including ones not shown
+    public sourceFiles: SourceFileRange[] = [];
+    public sync: SyncOptions = DEFAULT_SYNC_OPTIONS;
+    public indexOnly = false; // Joint data fills in as windows are visited
+    public fieldPaths: string[] = [];
+    public signals = new Map<string, Float64Array>(); // Field path -> value per frame
+    public diagnostics: BagDiagnostics = EMPTY_DIAGNOSTICS;
+    public transforms = new TransformBuffer(); // Looked up at frame timestamps
+    public cameraFrames: Record<string, string> = {}; // Image topic -> TF frame of the camera
+    public cameraInfos: Record<string, CameraIntrinsics> = {}; // CameraInfo topic -> intrinsics
+    public canExportBag = false; // ROS 1 bags only
 
     // --- Private State ---
-    private imageTopics: string[] = [];
-    private jointTopics: string[] = [];
-    private stringTopics: string[] = [];
-    private frameImageIndex = new Map<number, FrameImageMap>(); // FrameIndex -> { Topic -> ExactTimestamp }
-    private frameCache = new Map<number, ParsedFrame>();
-
-    async loadFile(file: File, onProgress?: (msg: string) => void): Promise<void> {
-        onProgress?.('Initializing OpenCV...');
-        await this.imageProcessor.init();
+    private depthDisplay: Record<string, DepthDisplay> = {}; // Kept across loads
+    private frameCache = new FrameCache(FRAME_CACHE_BYTES);
+    private requestedFrame = -1; // Last frame asked for through getFrameAt
+    private returnedFrame = -1; // Last of those handed out, e.g. the one on screen
+    private decoding = new Map<number, FrameDecode>(); // Frame index -> decode in flight
+    private prefetchQueue: number[] = [];
+    private windows = new Map<number, Promise<void>>(); // Block index -> load
+
+    /**
+     * Load one recording, or several split recordings of the same episode which are
+     * merged into a single timeline. Files are expected in playback order.
+     * Aborting the signal terminates the worker and rejects with an `AbortError`.
+     */
+    async loadFiles(files: File[], { sync = DEFAULT_SYNC_OPTIONS, indexing = 'auto', onProgress, signal }: LoadOptions = {}): Promise<void> {
+        // A fresh worker per load drops whatever the previous recording held
+        this.terminateWorker();
         this.reset();
 
-        try {
-            onProgress?.('Opening Bag File...');
-            const bagReader = new BrowserFile(file);
-            this.bag = new Bag(bagReader);
-            await this.bag.open();
-
-            // 1. Analyze Topics
-            onProgress?.('Analyzing Topics...');
-            for (const conn of this.bag.connections.values()) {
-                if (conn.type === 'sensor_msgs/Image' || conn.type === 'sensor_msgs/CompressedImage') {
-                    this.topicMetadata[conn.topic] = { msgType: conn.type, title: conn.topic };
-                    this.imageTopics.push(conn.topic);
-                }
-                if (conn.type === 'sensor_msgs/JointState') {
-                    this.topicMetadata[conn.topic] = { msgType: conn.type, title: conn.topic };
-                    this.jointTopics.push(conn.topic);
-                }
-                if (conn.type === 'std_msgs/String') {
-                    this.topicMetadata[conn.topic] = { msgType: conn.type, title: conn.topic };
-                    this.stringTopics.push(conn.topic);
-                }
-                console.log(conn);
-            }
-            
-            // Sort topics for consistent processing
-            this.imageTopics.sort();
-            this.jointTopics.sort();
-
-            const targetTopics = [...this.imageTopics, ...this.jointTopics, ...this.stringTopics];
-            if (targetTopics.length === 0) throw new Error("No compatible topics found.");
-
-            // 2. Extract All Messages
-            onProgress?.('Scanning Messages...');
-            
-            const allMessages: LightMessage[] = [];
-            
-            // Read messages for target topics
-            for await (const msg of this.bag.messageIterator({ topics: targetTopics })) {
-                const ts = this.timeToMs(msg.timestamp);
-                const lightMsg: LightMessage = {
-                    timestamp: ts,
-                    originalTime: msg.timestamp,
-                    topic: msg.topic
-                };
+        const onAbort = () => this.terminateWorker(new DOMException('Loading cancelled', 'AbortError'));
+        signal?.addEventListener('abort', onAbort);
 
-                // For JointState, we need the full data
-                if (this.jointTopics.includes(msg.topic) || this.stringTopics.includes(msg.topic)) {
-                    lightMsg.data = msg.message;
-                }
-                // Otherwise, for Image, we only need the timestamp
-                allMessages.push(lightMsg);
-            }
+        try {
+            if (signal?.aborted) throw new DOMException('Loading cancelled', 'AbortError');
+            const response = await this.request({ type: 'load', files, sync, indexing }, onProgress);
+            if (response.type !== 'loaded') return;
+
+            const result: LoadResult = response.result;
+            this.timestamps = result.timestamps;
+            this.topicMetadata = result.topicMetadata;
+            this.jointHistory = new JointHistory(result.jointHistory);
+            this.topicTypes = result.topicTypes;
+            this.sourceFiles = result.sourceFiles;
+            this.sync = result.sync;
+            this.indexOnly = result.indexOnly;
+            this.fieldPaths = result.fieldPaths;
+            this.diagnostics = result.diagnostics;
+            this.transforms = new TransformBuffer(result.transforms);
+            this.cameraFrames = result.cameraFrames;
+            this.cameraInfos = result.cameraInfos;
+            this.canExportBag = result.canExportBag;
+            if (Object.keys(this.depthDisplay).length > 0) await this.request({ type: 'depthDisplay', settings: this.depthDisplay });
+        } catch (err) {
+            if ((err as Error).name !== 'AbortError') console.error("Error in loadFiles:", err);
+            throw err;
+        } finally {
+            signal?.removeEventListener('abort', onAbort);
+        }
+    }
 
-            if (allMessages.length === 0) throw new Error("No messages found.");
-
-            // Sort messages by timestamp
-            allMessages.sort((a, b) => a.timestamp - b.timestamp);
-
-            // 3. Bootstrapping
-            onProgress?.('Aligning Timeline...');
-            
-            const seenTopics = new Set<string>();
-            let startMsgIndex = 0;
-            let firstFullStateTime: number | null = null;
-            
-            const currentJoints: Record<string, any> = {}; 
-            const currentImageTimes = new Map<string, Time>();
-
-            let currentTaskState = '';
-
-            for (let i = 0; i < allMessages.length; i++) {
-                const msg = allMessages[i];
-                seenTopics.add(msg.topic);
-
-                // Update current state
-                if (this.jointTopics.includes(msg.topic)) {
-                    currentJoints[msg.topic] = msg.data;
-                } else if (this.stringTopics.includes(msg.topic)) {
-                    // Update task state if topic matches
-                    if (msg.topic === '/puppet/task_state') {
-                        currentTaskState = (msg.data as StringMsg).data;
-                    }
-                } else {
-                    currentImageTimes.set(msg.topic, msg.originalTime);
-                }
-
-                // Check if all topics have been seen
-                // Note: We don't strictly require task_state to be present to start the timeline
-                // so we only check image/joint readiness for 'allReady'
-                const vitalTopics = [...this.imageTopics, ...this.jointTopics];
-                const allReady = vitalTopics.every(t => seenTopics.has(t));
-                if (allReady) {
-                    firstFullStateTime = msg.timestamp;
-                    startMsgIndex = i; // Start from the next message
-                    break;
-                }
-            }
+    async getFrameAt(index: number): Promise<ParsedFrame | null> {
+        if (!this.worker || index < 0 || index >= this.timestamps.length) return null;
+        // The frame asked for and the last one handed out stay cached while they may be drawn
+        this.requestedFrame = index;
+        this.frameCache.pin([index, this.returnedFrame]);
+        const frame = this.frameCache.get(index) ?? await this.decodeFrame(index);
+        if (frame && this.requestedFrame === index) {
+            this.returnedFrame = index;
+            this.frameCache.pin([index]);
+        }
+        return frame;
+    }
 
-            if (firstFullStateTime === null) {
-                console.warn("Incomplete bag: not all topics appeared. Falling back to simple start.");
-                firstFullStateTime = allMessages[0].timestamp;
-                startMsgIndex = 0;
-            }
+    /** Whether a frame is still being decoded, e.g. to hold playback instead of skipping it. */
+    isDecoding(index: number): boolean {
+        return this.decoding.has(index);
+    }
 
-            // 4. Generate 30Hz Frames (ZOH Interpolation)
-            onProgress?.('Interpolating Frames...');
-            
-            const endTime = allMessages[allMessages.length - 1].timestamp;
-            let msgCursor = startMsgIndex;
-            
-            for (let t = firstFullStateTime; t <= endTime; t += 33.33) {
-                const frameTime = Math.round(t);
-                const frameIdx = this.timestamps.length;
-                this.timestamps.push(frameTime);
-
-                // Process messages up to current frame time
-                while (msgCursor < allMessages.length && allMessages[msgCursor].timestamp <= t) {
-                    const msg = allMessages[msgCursor];
-                    
-                    // Update current state
-                    if (this.jointTopics.includes(msg.topic)) {
-                        currentJoints[msg.topic] = msg.data;
-                    } else if (this.stringTopics.includes(msg.topic)) {
-                        // Update current state
-                        if (msg.topic === '/puppet/task_state') {
-                            currentTaskState = (msg.data as StringMsg).data;
-                        }
-                    } else {
-                        currentImageTimes.set(msg.topic, msg.originalTime);
-                    }
-                    
-                    msgCursor++;
-                }
-                // Snapshot data for this frame
-                this.snapshotJointData(frameIdx, currentJoints);
-                this.frameImageIndex.set(frameIdx, new Map(currentImageTimes));
-                this.historicalTaskState.set(frameIdx, currentTaskState);
-            }
+    /**
+     * Change how depth topics are colored. Cached frames were rendered with the old
+     * settings, so they are dropped and decoded again on the next visit.
+     */
+    async setDepthDisplay(settings: Record<string, DepthDisplay>) {
+        this.depthDisplay = settings;
+        if (!this.worker) return;
+        await this.request({ type: 'depthDisplay', settings });
+        Array.from(this.decoding.keys()).forEach(i => this.cancelDecode(i));
+        this.frameCache.clear();
+    }
 
-            onProgress?.('');
-            console.log(`Loaded ${this.timestamps.length} frames. Start time: ${firstFullStateTime}`);
+    // --- Prefetching ---
+    /**
+     * Decode the frames after `index` in the play direction in the background.
+     * Decodes the playhead has moved away from, e.g. of an earlier seek, are aborted.
+     */
+    prefetch(index: number, direction: 1 | -1 = 1) {
+        const frameBytes = this.frameCache.averageBytes;
+        const count = frameBytes > 0 ? Math.min(PREFETCH_FRAMES, Math.max(1, Math.floor(PREFETCH_BUDGET_BYTES / frameBytes))) : PREFETCH_FRAMES;
+        const wanted: number[] = [];
+        for (let i = index; wanted.length <= count && i >= 0 && i < this.timestamps.length; i += direction) wanted.push(i);
+
+        const keep = new Set(wanted);
+        Array.from(this.decoding.keys()).forEach(i => { if (!keep.has(i)) this.cancelDecode(i); });
+
+        this.prefetchQueue = wanted.filter(i => !this.frameCache.has(i) && !this.decoding.has(i));
+        this.pumpPrefetch();
+    }
 
-        } catch (err) {
-            console.error("Error in loadFile:", err);
-            throw err;
+    private pumpPrefetch() {
+        while (this.decoding.size < PREFETCH_CONCURRENCY && this.prefetchQueue.length > 0) {
+            const index = this.prefetchQueue.shift()!;
+            if (this.frameCache.has(index) || this.decoding.has(index)) continue;
+            this.decodeFrame(index).then(() => this.pumpPrefetch());
         }
     }
 
-    private snapshotJointData(frameIdx: number, currentJoints: Record<string, any>) {
-        const frameJoints: Record<string, JointStateMsg> = {};
-
-        // Iterate over all discovered joint topics
-        this.jointTopics.forEach(topic => {
-            const rawMsg = currentJoints[topic];
-            
-            if (rawMsg) {
-                if (!rawMsg.name || rawMsg.name.length === 0) {
-                    const len = rawMsg.position ? rawMsg.position.length : 0;
-                    const generatedNames = Array.from({ length: len }, (_, k) => `joint${k + 1}`);
-                    frameJoints[topic] = {
-                        ...rawMsg,
-                        name: generatedNames
-                    };
-                } else {
-                    frameJoints[topic] = rawMsg;
-                }
+    /** Decode one frame in the worker. Resolves null if it was cancelled or failed. */
+    private decodeFrame(index: number): Promise<ParsedFrame | null> {
+        const inflight = this.decoding.get(index);
+        if (inflight) return inflight.promise;
+
+        const decode: FrameDecode = { requestId: null, cancelled: false, promise: Promise.resolve(null) };
+        decode.promise = (async () => {
+            try {
+                await this.ensureWindow(index);
+                if (decode.cancelled) return null;
+
+                const { id, response } = this.startRequest({ type: 'frame', index });
+                decode.requestId = id;
+                const msg = await response;
+                if (msg.type !== 'frame') return null;
+
+                const frameData: ParsedFrame = {
+                    timestamp: this.timestamps[index],
+                    index,
+                    images: msg.frame.images,
+                    imageErrors: msg.frame.errors,
+                    depth: msg.frame.depth,
+                    clouds: msg.frame.clouds,
+                    jointStateMap: this.jointHistory.getFrame(index)
+                };
+                const bytes = Object.values(msg.frame.images).reduce((n, bitmap) => n + bitmap.width * bitmap.height * 4, 0)
+                    + Object.values(msg.frame.depth).reduce((n, d) => n + d.data.byteLength, 0)
+                    + Object.values(msg.frame.clouds).reduce((n, c) => n + c.positions.byteLength + (c.colors?.byteLength ?? 0), 0);
+                this.frameCache.set(index, frameData, bytes);
+                return frameData;
+            } catch (e) {
+                // Aborted by a seek, or the worker was replaced by a new load while decoding
+                if ((e as Error).name !== 'AbortError') console.warn(e);
+                return null;
+            } finally {
+                if (this.decoding.get(index) === decode) this.decoding.delete(index);
             }
-        });
+        })();
+        this.decoding.set(index, decode);
+        return decode.promise;
+    }
 
-        this.historicalJointData.set(frameIdx, frameJoints);
+    private cancelDecode(index: number) {
+        const decode = this.decoding.get(index);
+        if (!decode) return;
+        decode.cancelled = true;
+        this.decoding.delete(index);
+        if (decode.requestId !== null) this.cancelRequest(decode.requestId);
     }
 
-    private reset() {
-        this.frameCache.clear();
-        this.timestamps = [];
-        this.topicMetadata = {};
-        this.historicalJointData.clear();
-        this.historicalTaskState.clear();
-        this.frameImageIndex.clear();
-        this.imageTopics = [];
-        this.jointTopics = [];
-        this.stringTopics = [];
-        this.bag = null;
+    /**
+     * Sample numeric fields such as `/ft_sensor.wrench.force.z` on the frame timeline.
+     * Paths loaded before are served from memory.
+     */
+    async loadSignals(paths: string[]): Promise<Map<string, Float64Array>> {
+        const missing = paths.filter(p => !this.signals.has(p));
+        if (missing.length > 0) {
+            const response = await this.request({ type: 'signals', paths: missing });
+            if (response.type === 'signals') response.signals.forEach(s => this.signals.set(s.path, s.values));
+        }
+        return new Map(paths.filter(p => this.signals.has(p)).map(p => [p, this.signals.get(p)!]));
     }
 
-    private timeToMs(t: Time): number {
-        return t.sec * 1000 + Math.round(t.nsec / 1e6);
+    /** Write a ROS 1 bag with part of the recording. Aborting the signal stops the worker's pass over it. */
+    async exportBag(request: BagExportRequest, onProgress?: (progress: LoadProgress) => void, signal?: AbortSignal): Promise<Blob> {
+        signal?.throwIfAborted();
+        const { id, response } = this.startRequest({ type: 'writeBag', request }, onProgress);
+        const onAbort = () => this.cancelRequest(id);
+        signal?.addEventListener('abort', onAbort);
+        try {
+            const result = await response;
+            if (result.type !== 'bag') throw new Error('Unexpected response to writeBag');
+            return result.bag;
+        } finally {
+            signal?.removeEventListener('abort', onAbort);
+        }
     }
 
-    async getFrameAt(index: number): Promise<ParsedFrame | null> {
-        if (!this.bag || index < 0 || index >= this.timestamps.length) return null;
+    /** Per-frame raw values of a discrete topic, for auto-segmentation. */
+    async loadTaskStates(topic: string, field: string): Promise<string[]> {
+        const response = await this.request({ type: 'taskStates', topic, field });
+        return response.type === 'taskStates' ? response.states : [];
+    }
 
-        const targetTs = this.timestamps[index];
-        if (this.frameCache.has(targetTs)) return this.frameCache.get(targetTs)!;
+    /** Make sure `jointHistory` holds frames [startFrame, endFrame), loading windows in index-only mode. */
+    async ensureJointData(startFrame: number, endFrame: number): Promise<void> {
+        const last = Math.min(endFrame, this.timestamps.length) - 1;
+        for (let block = Math.floor(startFrame / WINDOW_FRAMES); block * WINDOW_FRAMES <= last; block++) {
+            await this.ensureWindow(block * WINDOW_FRAMES);
+        }
+    }
 
-        const frameData: ParsedFrame = {
-            timestamp: targetTs,
-            index,
-            images: {},
-            jointStateMap: this.historicalJointData.get(index) || {}
-        };
+    // --- Index-only Windows ---
+    private ensureWindow(index: number): Promise<void> {
+        if (!this.indexOnly) return Promise.resolve();
 
-        const imageSnapshot = this.frameImageIndex.get(index);
-        
-        if (imageSnapshot && imageSnapshot.size > 0) {
-            const promises = Array.from(imageSnapshot.entries()).map(async ([topic, exactTime]) => {
-                try {
-                     const iter = this.bag!.messageIterator({
-                        topics: [topic],
-                        start: exactTime,
-                    });
-
-                    for await (const msg of iter) {
-                        const msgTime = msg.timestamp;
-                        if (msgTime.sec === exactTime.sec && msgTime.nsec === exactTime.nsec) {
-                             const msgAny = msg.message as any;
-                             const type = this.topicMetadata[topic].msgType;
-                             if (type.includes('CompressedImage')) {
-                                const format = msgAny.format?.includes('png') ? 'png' : 'jpeg';
-                                const blob = new Blob([msgAny.data], { type: `image/${format}` });
-                                frameData.images[topic] = URL.createObjectURL(blob);
-                             } else {
-                                const url = this.imageProcessor.processMessage(msgAny);
-                                if (url) frameData.images[topic] = url;
-                             }
-                        }
-                        break; // Only need the first matching message
-                    }
-                } catch (e) { console.warn(e); }
+        const block = Math.floor(index / WINDOW_FRAMES);
+        let pending = this.windows.get(block);
+        if (!pending) {
+            pending = this.loadWindow(block).catch(err => {
+                this.windows.delete(block); // Retry on the next visit
+                throw err;
             });
-            await Promise.all(promises);
+            this.windows.set(block, pending);
         }
+        return pending;
+    }
 
-        this.frameCache.set(targetTs, frameData);
-        if (this.frameCache.size > 30) {
-            const firstKey = this.frameCache.keys().next().value;
-            if (firstKey !== undefined) this.frameCache.delete(firstKey);
-        }
+    private async loadWindow(block: number) {
+        const startFrame = block * WINDOW_FRAMES;
+        const response = await this.request({ type: 'window', startFrame, endFrame: startFrame + WINDOW_FRAMES });
+        if (response.type !== 'window') return;
+
+        this.jointHistory.write(startFrame, response.window.jointHistory);
+        // A new wrapper over the same columns, so views keyed on identity refresh
+        this.jointHistory = new JointHistory(this.jointHistory.toData());
+    }
+
+    // --- Worker Plumbing ---
+    private ensureWorker(): Worker {
+        if (this.worker) return this.worker;
+
+        const worker = new Worker(new URL('../workers/bag.worker.ts', import.meta.url), { type: 'module' });
+        worker.onmessage = (e: MessageEvent<WorkerResponse>) => {
+            const msg = e.data;
+            const entry = this.pending.get(msg.id);
+            if (!entry) {
+                // A cancelled decode that finished anyway; nobody else holds its bitmaps
+                if (msg.type === 'frame') Object.values(msg.frame.images).forEach(bitmap => bitmap.close());
+                return;
+            }
+
+            if (msg.type === 'progress') {
+                entry.onProgress?.(msg.progress);
+                return;
+            }
+            this.pending.delete(msg.id);
+            if (msg.type === 'error') entry.reject(new Error(msg.message));
+            else entry.resolve(msg);
+        };
+        worker.onerror = (e) => {
+            this.terminateWorker(new Error(`Bag worker crashed: ${e.message}`));
+        };
+        this.worker = worker;
+        return worker;
+    }
+
+    private request(body: RequestBody, onProgress?: (progress: LoadProgress) => void): Promise<WorkerResponse> {
+        return this.startRequest(body, onProgress).response;
+    }
+
+    private startRequest(body: RequestBody, onProgress?: (progress: LoadProgress) => void): { id: number; response: Promise<WorkerResponse> } {
+        const worker = this.ensureWorker();
+        const id = this.nextRequestId++;
+        const response = new Promise<WorkerResponse>((resolve, reject) => {
+            this.pending.set(id, { resolve, reject, onProgress });
+            worker.postMessage({ ...body, id } as WorkerRequest);
+        });
+        return { id, response };
+    }
 
-        return frameData;
+    // The worker stops at its next checkpoint; whatever it still sends for `id` is dropped
+    private cancelRequest(id: number) {
+        const entry = this.pending.get(id);
+        if (!entry) return;
+        this.pending.delete(id);
+        this.worker?.postMessage({ type: 'cancel', id } as WorkerRequest);
+        entry.reject(new DOMException('Request cancelled', 'AbortError'));
     }
-}
\ No newline at end of file
+
+    private terminateWorker(reason: Error = new Error('Bag worker stopped')) {
+        this.worker?.terminate();
+        this.worker = null;
+        this.pending.forEach(entry => entry.reject(reason));
+        this.pending.clear();
+    }
+
+    private reset() {
+        this.frameCache.clear();
+        this.frameCache.pin([]);
+        this.requestedFrame = -1;
+        this.returnedFrame = -1;
+        this.decoding.clear();
+        this.prefetchQueue = [];
+        this.timestamps = [];
+        this.topicMetadata = {};
+        this.jointHistory = new JointHistory();
+        this.topicTypes = {};
+        this.sourceFiles = [];
+        this.sync = DEFAULT_SYNC_OPTIONS;
+        this.indexOnly = false;
+        this.fieldPaths = [];
+        this.signals = new Map();
+        this.diagnostics = EMPTY_DIAGNOSTICS;
+        this.transforms = new TransformBuffer();
+        this.cameraFrames = {};
+        this.cameraInfos = {};
+        this.canExportBag = false;
+        this.windows.clear();
+    }
+}
@@ -0,0 +1,229 @@
+// --- ROS 1 Bag Writer ---
+// Writes bag format 2.0 as `rosbag record` does: uncompressed chunks of connection and
+// message data records, each followed by its index data records, then the connection
+// and chunk info records that readers load up front.
+
+import type { Ros1Connection, Time } from './readers';
+
+const MAGIC = '#ROSBAG V2.0\n';
+const BAG_HEADER_LENGTH = 4096; // Header fields plus padding, so it can be written last without moving anything
+const CHUNK_THRESHOLD = 768 * 1024; // rosbag's default chunk size
+
+const OP_MESSAGE_DATA = 0x02;
+const OP_BAG_HEADER = 0x03;
+const OP_INDEX_DATA = 0x04;
+const OP_CHUNK = 0x05;
+const OP_CHUNK_INFO = 0x06;
+const OP_CONNECTION = 0x07;
+
+const textEncoder = new TextEncoder();
+
+interface OpenChunk {
+    records: Uint8Array[];
+    size: number;
+    start: Time;
+    end: Time;
+    index: Map<number, { time: Time; offset: number }[]>; // Connection id -> messages
+}
+
+interface ChunkInfo {
+    position: number;
+    start: Time;
+    end: Time;
+    counts: Map<number, number>; // Connection id -> message count
+}
+
+/** Builds a bag in memory; finished chunks are handed to Blobs as they fill up. */
+export class Ros1BagWriter {
+    private parts: Blob[] = [];
+    private position = MAGIC.length + 8 + BAG_HEADER_LENGTH;
+    private connections: Ros1Connection[] = []; // Index is the connection id
+    private connectionIds = new Map<string, number>(); // Topic -> id
+    private written = new Set<number>(); // Connections whose record is in a chunk already
+    private chunk: OpenChunk | null = null;
+    private chunkInfos: ChunkInfo[] = [];
+
+    /** Register a topic and return its connection id; a topic registered again keeps its first id. */
+    addConnection(connection: Ros1Connection): number {
+        const existing = this.connectionIds.get(connection.topic);
+        if (existing !== undefined) return existing;
+        const id = this.connections.length;
+        this.connections.push(connection);
+        this.connectionIds.set(connection.topic, id);
+        return id;
+    }
+
+    /** Append one serialized message. Messages should arrive in time order. */
+    write(connection: number, time: Time, data: Uint8Array) {
+        this.chunk ??= { records: [], size: 0, start: time, end: time, index: new Map() };
+        const chunk = this.chunk;
+
+        if (!this.written.has(connection)) {
+            this.written.add(connection);
+            this.append(chunk, connectionRecord(connection, this.connections[connection]));
+        }
+
+        let index = chunk.index.get(connection);
+        if (!index) {
+            index = [];
+            chunk.index.set(connection, index);
+        }
+        index.push({ time, offset: chunk.size });
+        this.append(chunk, record([['op', u8(OP_MESSAGE_DATA)], ['conn', u32(connection)], ['time', timeBytes(time)]], data));
+        if (compareTime(time, chunk.start) < 0) chunk.start = time;
+        if (compareTime(time, chunk.end) > 0) chunk.end = time;
+
+        if (chunk.size >= CHUNK_THRESHOLD) this.flushChunk();
+    }
+
+    /** Close the last chunk, write the index section and return the whole bag. */
+    finish(): Blob {
+        this.flushChunk();
+        const indexPosition = this.position;
+        const index: Uint8Array[] = [
+            ...this.connections.map((conn, id) => connectionRecord(id, conn)),
+            ...this.chunkInfos.map(chunkInfoRecord)
+        ];
+
+        const headerFields: Field[] = [
+            ['op', u8(OP_BAG_HEADER)],
+            ['index_pos', u64(indexPosition)],
+            ['conn_count', u32(this.connections.length)],
+            ['chunk_count', u32(this.chunkInfos.length)]
+        ];
+        // Data is spaces, up to the fixed header length
+        const header = record(headerFields, new Uint8Array(BAG_HEADER_LENGTH - encodeFields(headerFields).length).fill(0x20));
+
+        return new Blob([textEncoder.encode(MAGIC), header as Uint8Array<ArrayBuffer>, ...this.parts, ...(index as Uint8Array<ArrayBuffer>[])]);
+    }
+
+    private append(chunk: OpenChunk, bytes: Uint8Array) {
+        chunk.records.push(bytes);
+        chunk.size += bytes.length;
+    }
+
+    private flushChunk() {
+        const chunk = this.chunk;
+        if (!chunk) return;
+        this.chunk = null;
+
+        const chunkRecord = [
+            recordHeader([['op', u8(OP_CHUNK)], ['compression', textEncoder.encode('none')], ['size', u32(chunk.size)]], chunk.size),
+            ...chunk.records
+        ];
+        const indexRecords = Array.from(chunk.index, ([conn, entries]) => {
+            const data = new Uint8Array(entries.length * 12);
+            const view = new DataView(data.buffer);
+            entries.forEach(({ time, offset }, i) => {
+                view.setUint32(i * 12, time.sec, true);
+                view.setUint32(i * 12 + 4, time.nsec, true);
+                view.setUint32(i * 12 + 8, offset, true);
+            });
+            return record([['op', u8(OP_INDEX_DATA)], ['ver', u32(1)], ['conn', u32(conn)], ['count', u32(entries.length)]], data);
+        });
+
+        this.chunkInfos.push({
+            position: this.position,
+            start: chunk.start,
+            end: chunk.end,
+            counts: new Map(Array.from(chunk.index, ([conn, entries]) => [conn, entries.length]))
+        });
+        const blob = new Blob([...chunkRecord, ...indexRecords] as Uint8Array<ArrayBuffer>[]);
+        this.parts.push(blob);
+        this.position += blob.size;
+    }
+}
+
+// --- Records ---
+type Field = [string, Uint8Array];
+
+function connectionRecord(id: number, conn: Ros1Connection): Uint8Array {
+    const fields: Field[] = [
+        ['topic', textEncoder.encode(conn.topic)],
+        ['type', textEncoder.encode(conn.type)],
+        ['md5sum', textEncoder.encode(conn.md5sum)],
+        ['message_definition', textEncoder.encode(conn.messageDefinition)]
+    ];
+    if (conn.callerid) fields.push(['callerid', textEncoder.encode(conn.callerid)]);
+    if (conn.latching) fields.push(['latching', textEncoder.encode('1')]);
+    return record([['op', u8(OP_CONNECTION)], ['conn', u32(id)], ['topic', textEncoder.encode(conn.topic)]], encodeFields(fields));
+}
+
+function chunkInfoRecord(info: ChunkInfo): Uint8Array {
+    const data = new Uint8Array(info.counts.size * 8);
+    const view = new DataView(data.buffer);
+    Array.from(info.counts).forEach(([conn, count], i) => {
+        view.setUint32(i * 8, conn, true);
+        view.setUint32(i * 8 + 4, count, true);
+    });
+    return record([
+        ['op', u8(OP_CHUNK_INFO)],
+        ['ver', u32(1)],
+        ['chunk_pos', u64(info.position)],
+        ['start_time', timeBytes(info.start)],
+        ['end_time', timeBytes(info.end)],
+        ['count', u32(info.counts.size)]
+    ], data);
+}
+
+// Header length, header fields and data length; the data itself follows
+function recordHeader(fields: Field[], dataLength: number): Uint8Array {
+    const header = encodeFields(fields);
+    const out = new Uint8Array(8 + header.length);
+    const view = new DataView(out.buffer);
+    view.setUint32(0, header.length, true);
+    out.set(header, 4);
+    view.setUint32(4 + header.length, dataLength, true);
+    return out;
+}
+
+function record(fields: Field[], data: Uint8Array): Uint8Array {
+    const head = recordHeader(fields, data.length);
+    const out = new Uint8Array(head.length + data.length);
+    out.set(head, 0);
+    out.set(data, head.length);
+    return out;
+}
+
+// Each field: int32 length, then `name=value`
+function encodeFields(fields: Field[]): Uint8Array {
+    const encoded = fields.map(([name, value]) => {
+        const key = textEncoder.encode(`${name}=`);
+        const out = new Uint8Array(4 + key.length + value.length);
+        new DataView(out.buffer).setUint32(0, key.length + value.length, true);
+        out.set(key, 4);
+        out.set(value, 4 + key.length);
+        return out;
+    });
+    const out = new Uint8Array(encoded.reduce((n, f) => n + f.length, 0));
+    let offset = 0;
+    encoded.forEach(f => {
+        out.set(f, offset);
+        offset += f.length;
+    });
+    return out;
+}
+
+const u8 = (value: number) => Uint8Array.of(value);
+
+function u32(value: number): Uint8Array {
+    const out = new Uint8Array(4);
+    new DataView(out.buffer).setUint32(0, value, true);
+    return out;
+}
+
+function u64(value: number): Uint8Array {
+    const out = new Uint8Array(8);
+    new DataView(out.buffer).setBigUint64(0, BigInt(value), true);
+    return out;
+}
+
+function timeBytes(time: Time): Uint8Array {
+    const out = new Uint8Array(8);
+    const view = new DataView(out.buffer);
+    view.setUint32(0, time.sec, true);
+    view.setUint32(4, time.nsec, true);
+    return out;
+}
+
+const compareTime = (a: Time, b: Time) => (a.sec - b.sec) || (a.nsec - b.nsec);
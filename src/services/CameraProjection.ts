@@ -0,0 +1,133 @@
+// --- Camera Projection ---
+// sensor_msgs/CameraInfo intrinsics and the per-image-topic calibration used to
+// draw the robot (gripper tips, link skeleton) over camera images.
+
+import type { LinkPose } from './Kinematics';
+import { compose, invert, type Pose, type Vec3 } from './TransformBuffer';
+
+/** sensor_msgs/CameraInfo as decoded: ROS 1 uses `D`/`K`/`P`, ROS 2 `d`/`k`/`p`. */
+export interface CameraInfoMsg {
+    header?: { frame_id?: string };
+    width: number;
+    height: number;
+    distortion_model: string;
+    D?: ArrayLike<number>;
+    K?: ArrayLike<number>;
+    P?: ArrayLike<number>;
+    d?: ArrayLike<number>;
+    k?: ArrayLike<number>;
+    p?: ArrayLike<number>;
+}
+
+export interface CameraIntrinsics {
+    frameId: string;
+    width: number;
+    height: number;
+    distortionModel: string; // 'plumb_bob' / 'rational_polynomial' distortion is applied, others ignored
+    D: number[];
+    K: number[]; // 3x3 row-major, for raw images
+    P: number[]; // 3x4 row-major, for rectified images
+}
+
+export function cameraIntrinsicsOf(msg: CameraInfoMsg): CameraIntrinsics {
+    return {
+        frameId: msg.header?.frame_id ?? '',
+        width: msg.width,
+        height: msg.height,
+        distortionModel: msg.distortion_model,
+        D: Array.from(msg.D ?? msg.d ?? []),
+        K: Array.from(msg.K ?? msg.k ?? []),
+        P: Array.from(msg.P ?? msg.p ?? [])
+    };
+}
+
+/** How an image topic is tied to its intrinsics and to a frame of the robot or the TF tree. */
+export interface CameraCalibration {
+    infoTopic: string;
+    frame: string; // Optical frame (z forward, x right, y down): a URDF link or a TF frame
+    rectified: boolean; // Project with P and no distortion
+    showOverlay: boolean;
+    showSkeleton: boolean; // Links as well as the gripper tips
+}
+
+/**
+ * Starting point for a topic without saved calibration: the CameraInfo topic next to
+ * it (`/cam/image_raw` -> `/cam/camera_info`) and the frame its images are stamped with.
+ */
+export function defaultCalibration(imageTopic: string, infoTopics: string[], cameraFrame: string): CameraCalibration {
+    const parent = (topic: string) => topic.slice(0, topic.lastIndexOf('/'));
+    // Walk up the namespace until a CameraInfo topic shares it, e.g. for `/cam/color/image_raw/compressed`
+    let infoTopic = '';
+    for (let ns = parent(imageTopic); !infoTopic && ns !== ''; ns = parent(ns)) {
+        infoTopic = infoTopics.find(t => parent(t) === ns) ?? '';
+    }
+    if (!infoTopic && infoTopics.length === 1) infoTopic = infoTopics[0];
+    return {
+        infoTopic,
+        frame: cameraFrame,
+        rectified: imageTopic.includes('rect'),
+        showOverlay: false,
+        showSkeleton: false
+    };
+}
+
+/** Pixel coordinates of a point in the camera's optical frame, or null behind the camera. */
+export function projectPoint(camera: CameraIntrinsics, rectified: boolean, point: Vec3): [number, number] | null {
+    const [x, y, z] = point;
+    if (!(z > 1e-6)) return null;
+    let u = x / z, v = y / z;
+
+    if (rectified) {
+        const P = camera.P;
+        if (P.length < 12) return null;
+        return [P[0] * u + P[1] * v + P[2], P[5] * v + P[6]];
+    }
+
+    const D = camera.D;
+    if ((camera.distortionModel === 'plumb_bob' || camera.distortionModel === 'rational_polynomial') && D.length >= 5) {
+        const [k1, k2, p1, p2, k3, k4 = 0, k5 = 0, k6 = 0] = D;
+        const r2 = u * u + v * v;
+        const radial = (1 + r2 * (k1 + r2 * (k2 + r2 * k3))) / (1 + r2 * (k4 + r2 * (k5 + r2 * k6)));
+        const du = 2 * p1 * u * v + p2 * (r2 + 2 * u * u);
+        const dv = p1 * (r2 + 2 * v * v) + 2 * p2 * u * v;
+        u = u * radial + du;
+        v = v * radial + dv;
+    }
+    const K = camera.K;
+    if (K.length < 9) return null;
+    return [K[0] * u + K[1] * v + K[2], K[4] * v + K[5]];
+}
+
+export interface ProjectedOverlay {
+    width: number; // Image size the pixel coordinates refer to
+    height: number;
+    tips: { link: string; u: number; v: number }[];
+    bones: [number, number, number, number][]; // u1, v1, u2, v2
+}
+
+/**
+ * Project the gripper tips (and optionally every link-to-parent bone) into the image of
+ * a camera whose optical frame sits at `cameraPose`. All poses are in the robot's root frame.
+ */
+export function projectRobot(camera: CameraIntrinsics, calibration: CameraCalibration, cameraPose: Pose, links: Record<string, LinkPose>, tipLinks: string[]): ProjectedOverlay {
+    const toCamera = invert(cameraPose);
+    const project = (link: string) => {
+        const pose = links[link]?.pose;
+        return pose ? projectPoint(camera, calibration.rectified, compose(toCamera, pose).translation) : null;
+    };
+
+    const tips = tipLinks.flatMap(link => {
+        const uv = project(link);
+        return uv ? [{ link, u: uv[0], v: uv[1] }] : [];
+    });
+
+    const bones: ProjectedOverlay['bones'] = [];
+    if (calibration.showSkeleton) {
+        Object.entries(links).forEach(([link, { parent }]) => {
+            if (!parent) return;
+            const a = project(parent), b = project(link);
+            if (a && b) bones.push([a[0], a[1], b[0], b[1]]);
+        });
+    }
+    return { width: camera.width, height: camera.height, tips, bones };
+}
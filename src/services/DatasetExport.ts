@@ -0,0 +1,197 @@
+// --- Dataset Export ---
+// What the training-set exporters (ALOHA HDF5, LeRobot) share: episode spans, per-frame
+// labels from the annotations, joint and FK pose columns and frame decoding through BagService.
+
+import type { URDFRobot } from '../components/urdf/URDFClasses';
+import type { BagService, ParsedFrame } from './BagService';
+import type { JointField, JointHistory } from './JointHistory';
+import { computeLinkTrajectories, type JointMapping } from './Kinematics';
+
+export interface DatasetExportOptions {
+    stateTopics: string[]; // JointState topics whose joints make up the state, in order
+    actionTopic: string | null; // JointState topic commanding the robot (e.g. the leader arm); null: next frame's state
+    imageTopics: string[];
+    endEffector: EndEffectorOptions | null; // Also write Cartesian state and action from FK
+}
+
+/** URDF links whose FK pose is exported as Cartesian state and action. */
+export interface EndEffectorOptions {
+    robot: URDFRobot; // A copy, posed for FK
+    links: string[];
+    mapJoints: JointMapping;
+}
+
+/** A span of frames with its annotation, as exported to one episode. */
+export interface ExportSegment {
+    start: number; // Inclusive frame indices
+    end: number;
+    name: string; // File name without extension
+}
+
+export interface LabelSpan {
+    start: number;
+    end: number;
+    prompt?: string;
+    quality?: string | null;
+}
+
+export type FrameLabels = ReturnType<typeof frameLabels>;
+
+/** Per-frame labels of a frame range: the covering subtask's prompt and quality, and contact flags. */
+export function frameLabels(start: number, end: number, subtasks: LabelSpan[], contacts: LabelSpan[]) {
+    const count = end - start + 1;
+    const prompt = new Array<string>(count).fill('');
+    const quality = new Array<string>(count).fill('');
+    const contact = new Uint8Array(count);
+    for (let i = 0; i < count; i++) {
+        const frame = start + i;
+        const subtask = subtasks.find(s => s.start <= frame && frame <= s.end);
+        if (subtask) {
+            prompt[i] = subtask.prompt ?? '';
+            quality[i] = subtask.quality ?? '';
+        }
+        if (contacts.some(c => c.start <= frame && frame <= c.end)) contact[i] = 1;
+    }
+    return { prompt, quality, contact };
+}
+
+/** Which frames an export covers: the whole recording, or chosen subtasks (optionally only good ones). */
+export interface ExportScope {
+    wholeRecording: boolean;
+    subtaskIds: string[];
+    goodOnly: boolean;
+}
+
+/** The spans of a scope in time order, one per exported subtask, named `episode_<n>`. */
+export function scopeSegments(scope: ExportScope, subtasks: (LabelSpan & { id: string })[], frameCount: number): ExportSegment[] {
+    const lastFrame = frameCount - 1;
+    if (scope.wholeRecording) return [{ start: 0, end: lastFrame, name: 'episode_0' }];
+    return [...subtasks]
+        .sort((a, b) => a.start - b.start)
+        .filter(s => scope.subtaskIds.includes(s.id) && (!scope.goodOnly || s.quality === 'good'))
+        .map((s, i) => ({ start: s.start, end: Math.min(s.end, lastFrame), name: `episode_${i}` }));
+}
+
+/** Dataset-safe name for an image topic: `/camera/color/image_raw` -> `camera_color_image_raw`. */
+export const cameraName = (topic: string): string => topic.replace(/^\/+/, '').replace(/[^A-Za-z0-9_]+/g, '_');
+
+/** Joint name of a `${topic}/${name}` joint id. */
+export const jointName = (id: string): string => id.slice(id.lastIndexOf('/') + 1);
+
+/** Joint ids of the state and the action, in topic and joint order. */
+export function selectJoints(history: JointHistory, options: DatasetExportOptions): { state: string[]; action: string[] } {
+    const ofTopic = (topic: string) => history.jointIds.filter(id => id.startsWith(`${topic}/`));
+    const state = options.stateTopics.flatMap(ofTopic);
+    return { state, action: options.actionTopic ? ofTopic(options.actionTopic) : state };
+}
+
+/**
+ * One field of `ids` over a segment, row-major [frame][joint]. `offset` 1 reads the next
+ * frame (held on the last frame of the recording); NaN where a frame has no data.
+ */
+export function jointColumns(history: JointHistory, ids: string[], field: JointField, segment: ExportSegment, offset = 0): Float64Array {
+    const count = segment.end - segment.start + 1;
+    const data = new Float64Array(count * ids.length);
+    for (let i = 0; i < count; i++) {
+        const frame = Math.min(segment.start + i + offset, history.frameCount - 1);
+        ids.forEach((id, j) => { data[i * ids.length + j] = history.value(id, field, frame); });
+    }
+    return data;
+}
+
+/**
+ * FK poses of the end-effector links over a segment, row-major [frame][link] with
+ * [x, y, z, qx, qy, qz, qw] per link in the robot's root link frame. The action is the pose
+ * on the next frame (held on the last frame of the recording); NaN where a frame has no data.
+ */
+export function poseColumns(history: JointHistory, endEffector: EndEffectorOptions, segment: ExportSegment): { names: string[]; state: Float64Array; action: Float64Array } {
+    const count = segment.end - segment.start + 1;
+    const last = Math.min(segment.end + 1, history.frameCount - 1);
+    const trajectories = computeLinkTrajectories(endEffector.robot, endEffector.links, history, endEffector.mapJoints, segment.start, last);
+    const width = trajectories.length * 7;
+    const state = new Float64Array(count * width);
+    const action = new Float64Array(count * width);
+    const copyPose = (target: Float64Array, row: number, entry: number) => trajectories.forEach(({ positions, quaternions }, k) => {
+        target.set(positions.subarray(entry * 3, entry * 3 + 3), row * width + k * 7);
+        target.set(quaternions.subarray(entry * 4, entry * 4 + 4), row * width + k * 7 + 3);
+    });
+    for (let i = 0; i < count; i++) {
+        copyPose(state, i, i);
+        copyPose(action, i, Math.min(i + 1, last - segment.start));
+    }
+    const names = trajectories.flatMap(t => ['x', 'y', 'z', 'qx', 'qy', 'qz', 'qw'].map(c => `${t.link}.${c}`));
+    return { names, state, action };
+}
+
+/**
+ * Decode the frames of a segment in order and hand each to `onFrame`, then make sure the
+ * joint data of the segment (and the frame after it, for next-frame actions) is loaded.
+ * Frames are only decoded when `decodeImages` is set; aborting `signal` stops between frames.
+ */
+export async function forEachFrame(
+    bagService: BagService,
+    segment: ExportSegment,
+    decodeImages: boolean,
+    onFrame: (i: number, frame: ParsedFrame | null) => void | Promise<void>,
+    signal?: AbortSignal
+) {
+    const count = segment.end - segment.start + 1;
+    for (let i = 0; i < count; i++) {
+        signal?.throwIfAborted();
+        const index = segment.start + i;
+        let frame: ParsedFrame | null = null;
+        if (decodeImages) {
+            bagService.prefetch(index);
+            frame = await bagService.getFrameAt(index);
+            if (!frame) throw new Error(`Frame ${index} could not be decoded`);
+        }
+        await onFrame(i, frame);
+    }
+    await bagService.ensureJointData(segment.start, segment.end + 2);
+}
+
+/**
+ * The cameras of `topics` with an image in any of the segments, and the size of their first
+ * image. Only frames between a camera's first and last message are decoded, so this usually
+ * stops at the first frame of the first segment.
+ */
+export async function probeCameras(
+    bagService: BagService,
+    segments: ExportSegment[],
+    topics: string[],
+    signal?: AbortSignal
+): Promise<Map<string, { width: number; height: number }>> {
+    const sizes = new Map<string, { width: number; height: number }>();
+    const { timestamps } = bagService;
+    for (const topic of topics) {
+        const published = bagService.diagnostics.topics.find(t => t.topic === topic);
+        if (!published || published.count === 0) continue;
+        search: for (const segment of segments) {
+            for (let frame = segment.start; frame <= segment.end; frame++) {
+                if (timestamps[frame] < Math.floor(published.firstMs)) continue;
+                if (timestamps[frame] > Math.ceil(published.lastMs)) break;
+                signal?.throwIfAborted();
+                const bitmap = (await bagService.getFrameAt(frame))?.images[topic];
+                if (!bitmap) continue;
+                sizes.set(topic, { width: bitmap.width, height: bitmap.height });
+                break search;
+            }
+        }
+    }
+    return sizes;
+}
+
+// Pixels of a decoded frame, scaled to `width` x `height` if its size differs
+export function bitmapToRgb(bitmap: ImageBitmap, width: number, height: number): Uint8Array {
+    const canvas = new OffscreenCanvas(width, height);
+    const ctx = canvas.getContext('2d')!;
+    ctx.drawImage(bitmap, 0, 0, width, height);
+    const rgba = ctx.getImageData(0, 0, width, height).data;
+    const rgb = new Uint8Array(width * height * 3);
+    for (let p = 0, q = 0; p < rgba.length; p += 4, q += 3) {
+        rgb[q] = rgba[p];
+        rgb[q + 1] = rgba[p + 1];
+        rgb[q + 2] = rgba[p + 2];
+    }
+    return rgb;
+}
@@ -0,0 +1,40 @@
+// --- Depth Image Display ---
+// How depth topics (16UC1 in mm, 32FC1 in m) are turned into colors, per topic.
+
+export type DepthColormap = 'turbo' | 'jet' | 'viridis' | 'inferno' | 'magma' | 'bone' | 'gray';
+
+export const DEPTH_COLORMAPS: DepthColormap[] = ['turbo', 'jet', 'viridis', 'inferno', 'magma', 'bone', 'gray'];
+
+export interface DepthDisplay {
+    autoRange: boolean; // Stretch each frame between its own nearest and farthest reading
+    minMm: number; // Fixed range, so a given depth always has the same color
+    maxMm: number;
+    colormap: DepthColormap;
+    maskInvalid: boolean; // Draw pixels without a reading (0, NaN) black
+}
+
+export const DEFAULT_DEPTH_DISPLAY: DepthDisplay = {
+    autoRange: false,
+    minMm: 0,
+    maxMm: 4000,
+    colormap: 'turbo',
+    maskInvalid: true
+};
+
+/** Raw readings of a depth frame, kept next to its rendered bitmap for the pixel readout. */
+export interface DepthSamples {
+    width: number;
+    height: number;
+    data: Uint16Array | Float32Array; // Row-major, as in the message
+    unitMm: number; // Millimetres per stored unit: 1 for 16UC1, 1000 for 32FC1
+}
+
+/** Depth at a pixel in mm, or null outside the image or where there is no reading. */
+export function depthAt(samples: DepthSamples, x: number, y: number): number | null {
+    if (x < 0 || y < 0 || x >= samples.width || y >= samples.height) return null;
+    const value = samples.data[y * samples.width + x] * samples.unitMm;
+    return Number.isFinite(value) && value > 0 ? value : null;
+}
+
+export const describeDepthDisplay = (d: DepthDisplay): string =>
+    `${d.autoRange ? 'auto' : `${d.minMm}–${d.maxMm} mm`} · ${d.colormap}`;
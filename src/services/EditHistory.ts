@@ -0,0 +1,76 @@
+// --- Undo/Redo History ---
+
+const MAX_ENTRIES = 200;
+
+/** One undoable edit: the state before and after it, under a label for the history list. */
+export interface HistoryEntry<T> {
+    label: string;
+    before: T;
+    after: T;
+    group?: string; // Edits with the same open group merge into this entry
+}
+
+/**
+ * Linear undo/redo over immutable snapshots of `T`. Every edit is recorded as a command
+ * with its before and after state; continuous edits (a drag, typing a prompt) share a
+ * group key and collapse into one entry until the group is closed.
+ */
+export class EditHistory<T> {
+    private past: HistoryEntry<T>[] = [];
+    private future: HistoryEntry<T>[] = []; // Most recently undone last
+    private openGroup: string | null = null;
+
+    get canUndo(): boolean {
+        return this.past.length > 0;
+    }
+
+    get canRedo(): boolean {
+        return this.future.length > 0;
+    }
+
+    /** Applied entries, oldest first, and undone ones in the order they would be redone. */
+    get entries(): { past: readonly HistoryEntry<T>[]; future: readonly HistoryEntry<T>[] } {
+        return { past: this.past, future: [...this.future].reverse() };
+    }
+
+    record(label: string, before: T, after: T, group?: string) {
+        this.future = [];
+        const last = this.past[this.past.length - 1];
+        if (group !== undefined && last && last.group === group && this.openGroup === group) {
+            last.after = after;
+            return;
+        }
+        this.past.push({ label, before, after, group });
+        if (this.past.length > MAX_ENTRIES) this.past.shift();
+        this.openGroup = group ?? null;
+    }
+
+    /** End the current group, so the next edit is a step of its own. */
+    closeGroup() {
+        this.openGroup = null;
+    }
+
+    /** The state to go back to, or undefined if there is nothing to undo. */
+    undo(): T | undefined {
+        const entry = this.past.pop();
+        if (!entry) return undefined;
+        this.future.push(entry);
+        this.openGroup = null;
+        return entry.before;
+    }
+
+    /** The state to go forward to, or undefined if there is nothing to redo. */
+    redo(): T | undefined {
+        const entry = this.future.pop();
+        if (!entry) return undefined;
+        this.past.push(entry);
+        this.openGroup = null;
+        return entry.after;
+    }
+
+    clear() {
+        this.past = [];
+        this.future = [];
+        this.openGroup = null;
+    }
+}
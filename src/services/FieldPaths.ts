@@ -0,0 +1,99 @@
+import type { MessageDefinition } from '@foxglove/message-definition';
+
+// --- Field Paths ---
+// A field path names one numeric value of a topic's messages: `/ft_sensor.wrench.force.z`,
+// `/gripper/state.position[1]`. The topic runs up to the first '.', which topic names never contain.
+
+export type PathSegment = string | number;
+
+export interface FieldPath {
+    topic: string;
+    segments: PathSegment[];
+}
+
+const NUMERIC_TYPES = new Set([
+    'bool', 'byte', 'char', 'int8', 'uint8', 'int16', 'uint16', 'int32', 'uint32',
+    'int64', 'uint64', 'float32', 'float64'
+]);
+
+// Fixed-size arrays up to this length (e.g. a quaternion as float64[4]) are listed element by element
+const MAX_LISTED_ARRAY = 9;
+const MAX_DEPTH = 8;
+
+// Header fields (seq, stamp) are bookkeeping, not signals
+const SKIPPED_TYPES = new Set(['std_msgs/Header', 'std_msgs/msg/Header']);
+
+export function parseFieldPath(path: string): FieldPath | null {
+    const dot = path.indexOf('.');
+    if (!path.startsWith('/') || dot === -1) return null;
+
+    const segments: PathSegment[] = [];
+    for (const part of path.slice(dot + 1).split('.')) {
+        const match = /^([A-Za-z_]\w*)((?:\[\d+\])*)$/.exec(part);
+        if (!match) return null;
+        segments.push(match[1]);
+        for (const index of match[2].matchAll(/\[(\d+)\]/g)) segments.push(Number(index[1]));
+    }
+    return { topic: path.slice(0, dot), segments };
+}
+
+/** Follow a path into a deserialized message; undefined if it leads nowhere. */
+export function readField(message: unknown, segments: PathSegment[]): unknown {
+    let value: unknown = message;
+    for (const segment of segments) {
+        if (value == null || typeof value !== 'object') return undefined;
+        value = (value as Record<PathSegment, unknown>)[segment];
+    }
+    return value;
+}
+
+/** Read one numeric value from a deserialized message; NaN if the path doesn't lead to a number. */
+export function readFieldValue(message: unknown, segments: PathSegment[]): number {
+    const value = readField(message, segments);
+    if (typeof value === 'number') return value;
+    if (typeof value === 'bigint') return Number(value);
+    if (typeof value === 'boolean') return value ? 1 : 0;
+    return NaN;
+}
+
+/** A field as text: strings as-is, messages and arrays as JSON. */
+export function stringifyField(value: unknown): string {
+    if (value == null) return '';
+    if (typeof value === 'string') return value;
+    if (typeof value !== 'object') return String(value);
+    return JSON.stringify(value, (_, v) => (typeof v === 'bigint' ? Number(v) : ArrayBuffer.isView(v) ? Array.from(v as Float64Array) : v));
+}
+
+/**
+ * Every plottable numeric leaf of a message type, as paths relative to the message
+ * (`wrench.force.z`). `definitions` is a parsed schema with the root type first.
+ */
+export function listNumericFields(definitions: MessageDefinition[]): string[] {
+    const root = definitions[0];
+    if (!root) return [];
+    const byName = new Map(definitions.filter(d => d.name).map(d => [d.name!, d]));
+
+    const result: string[] = [];
+    const visit = (definition: MessageDefinition, prefix: string, depth: number) => {
+        if (depth > MAX_DEPTH) return;
+        for (const field of definition.definitions) {
+            if (field.isConstant) continue;
+            const path = prefix ? `${prefix}.${field.name}` : field.name;
+
+            // Variable-length arrays have no fixed elements to list; they can still be typed by hand
+            const elements = field.isArray
+                ? (field.arrayLength !== undefined && field.arrayLength <= MAX_LISTED_ARRAY ? Array.from({ length: field.arrayLength }, (_, i) => `${path}[${i}]`) : [])
+                : [path];
+
+            if (field.isComplex) {
+                const child = byName.get(field.type);
+                if (!child || SKIPPED_TYPES.has(field.type)) continue;
+                elements.forEach(p => visit(child, p, depth + 1));
+            } else if (NUMERIC_TYPES.has(field.type)) {
+                result.push(...elements);
+            }
+        }
+    };
+    visit(root, '', 0);
+    return result;
+}
@@ -0,0 +1,69 @@
+import type { ParsedFrame } from './BagService';
+
+interface CacheEntry {
+    frame: ParsedFrame;
+    bytes: number;
+}
+
+/**
+ * Decoded frames keyed by frame index, least recently used evicted first once the
+ * decoded pixels exceed `budgetBytes`. Evicted frames have their bitmaps closed, so
+ * frames still in use (e.g. the one on screen) are pinned and never evicted.
+ */
+export class FrameCache {
+    private entries = new Map<number, CacheEntry>(); // Iteration order is recency, oldest first
+    private totalBytes = 0;
+    private readonly budgetBytes: number;
+    private pinned = new Set<number>();
+
+    constructor(budgetBytes: number) {
+        this.budgetBytes = budgetBytes;
+    }
+
+    /** Mean size of the cached frames, 0 while empty. */
+    get averageBytes(): number {
+        return this.entries.size > 0 ? this.totalBytes / this.entries.size : 0;
+    }
+
+    /** Keep exactly these frames from being evicted, replacing the previous pins. */
+    pin(indices: number[]) {
+        this.pinned = new Set(indices);
+    }
+
+    has(index: number): boolean {
+        return this.entries.has(index);
+    }
+
+    get(index: number): ParsedFrame | undefined {
+        const entry = this.entries.get(index);
+        if (!entry) return undefined;
+        // Re-insert to mark as most recently used
+        this.entries.delete(index);
+        this.entries.set(index, entry);
+        return entry.frame;
+    }
+
+    set(index: number, frame: ParsedFrame, bytes: number) {
+        this.delete(index);
+        this.entries.set(index, { frame, bytes });
+        this.totalBytes += bytes;
+
+        // Always keep the newest frame and the pinned ones, even if they alone are over budget
+        for (const key of Array.from(this.entries.keys())) {
+            if (this.totalBytes <= this.budgetBytes) break;
+            if (key !== index && !this.pinned.has(key)) this.delete(key);
+        }
+    }
+
+    delete(index: number) {
+        const entry = this.entries.get(index);
+        if (!entry) return;
+        Object.values(entry.frame.images).forEach(bitmap => bitmap.close());
+        this.totalBytes -= entry.bytes;
+        this.entries.delete(index);
+    }
+
+    clear() {
+        Array.from(this.entries.keys()).forEach(key => this.delete(key));
+    }
+}
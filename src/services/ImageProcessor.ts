@@ -1,4 +1,12 @@
 import cvModule from '@techstark/opencv-js';
+import { decode as decodePng, hasPngSignature } from 'fast-png';
+import { DEFAULT_DEPTH_DISPLAY, type DepthColormap, type DepthDisplay, type DepthSamples } from './DepthDisplay';
+
+/** A decoded image, plus its raw readings for depth encodings. */
+export interface ProcessedImage {
+    bitmap: ImageBitmap;
+    depth?: DepthSamples;
+}
 
 export class ImageProcessor {
     private cv: any = null;
@@ -21,108 +29,251 @@ export class ImageProcessor {
         console.log("✅ OpenCV.js is ready!", this.cv.getBuildInformation ? this.cv.getBuildInformation() : '');
     }
 
-    public processMessage(msg: any): string | null {
-        if (!this.cv) {
-            console.warn("OpenCV is not initialized. Call init() first.");
-            return null;
-        }
+    /**
+     * Convert a sensor_msgs/Image into a displayable RGBA bitmap. Throws for encodings
+     * that can't be shown, with a message meant for the user. `depthDisplay` applies
+     * to depth encodings only.
+     */
+    public async processMessage(msg: any, depthDisplay: DepthDisplay = DEFAULT_DEPTH_DISPLAY): Promise<ProcessedImage> {
+        if (!this.cv) throw new Error("OpenCV is not initialized. Call init() first.");
+
+        const { encoding, width, height, step, is_bigendian } = msg;
+        const format = this.pixelFormat(encoding);
+        if (!format) throw new Error(`Unsupported encoding: ${encoding}`);
 
-        const { encoding, width, height, data } = msg;
-        const rawData = data instanceof Uint8Array ? data : new Uint8Array(data);
+        const rawData = messageBytes(msg);
+        const rowBytes = width * format.bytesPerPixel;
+        const rowStep = step || rowBytes;
+        const expected = rowStep * (height - 1) + rowBytes;
+        if (rawData.length < expected) throw new Error(`${encoding}: expected ${expected} bytes, got ${rawData.length}`);
+        const pixels = packRows(rawData, height, rowBytes, rowStep, is_bigendian ? format.bytesPerPixel / format.channels : 1);
 
         try {
-            if (encoding === '16UC1') {
-                return this.processDepthImage(rawData, width, height);
-            } else if (encoding === 'bgr8') {
-                return this.processBGR8Image(rawData, width, height);
-            } else if (encoding === 'rgb8') {
-                return this.processRGB8Image(rawData, width, height);
-            } else if (encoding === 'mono8') {
-                return this.processMono8Image(rawData, width, height);
-            }
-            return null;
+            if (format.kind === 'depth') return await this.processDepthImage(pixels, width, height, format, depthDisplay);
+            if (format.kind === 'mono16') return { bitmap: await this.processMono16Image(pixels, width, height) };
+            return { bitmap: await this.processColorImage(pixels, width, height, format) };
         } catch (e) {
-            console.error("OpenCV Process Error:", e);
-            return null;
+            throw new Error(`Could not decode ${encoding}: ${this.errorMessage(e)}`);
         }
     }
 
-    private processDepthImage(data: Uint8Array, width: number, height: number): string {
-        // 使用 this.cv 替代全局 cv
-        let mat16 = new this.cv.Mat(height, width, this.cv.CV_16UC1);
-        let matF32 = new this.cv.Mat();
-        let normalized = new this.cv.Mat();
-        let colorMat = new this.cv.Mat();
-        let rgbMat = new this.cv.Mat();
+    /**
+     * Decode a compressed_depth_image_transport message (`format` like '16UC1; compressedDepth png'):
+     * a 12-byte config header, then a 16-bit gray PNG. 32FC1 depth is stored as quantized
+     * inverse depth, restored with the header's two parameters. Colorized like raw depth.
+     */
+    public async processCompressedDepth(msg: { format: string; data: Uint8Array }, depthDisplay: DepthDisplay = DEFAULT_DEPTH_DISPLAY): Promise<ProcessedImage> {
+        if (!this.cv) throw new Error("OpenCV is not initialized. Call init() first.");
+
+        const [encoding, transport = ''] = msg.format.split(';').map(part => part.trim());
+        if (/\brvl\b/.test(transport)) throw new Error('Unsupported compressedDepth codec: rvl');
+        const format = this.pixelFormat(encoding);
+        if (format?.kind !== 'depth') throw new Error(`Unsupported compressedDepth encoding: ${encoding}`);
 
+        // Very old publishers wrote the PNG without the config header
+        const hasHeader = !hasPngSignature(msg.data);
+        if (!hasHeader && encoding === '32FC1') throw new Error('compressedDepth 32FC1 without a config header');
+
+        let png;
         try {
-            mat16.data.set(data);
+            png = decodePng(msg.data.subarray(hasHeader ? COMPRESSED_DEPTH_HEADER_BYTES : 0));
+        } catch (e) {
+            throw new Error(`Could not decode compressedDepth PNG: ${(e as Error).message}`);
+        }
+        if (png.depth !== 16 || png.channels !== 1) throw new Error(`compressedDepth: expected a 16-bit gray PNG, got ${png.depth}-bit with ${png.channels} channels`);
+        const samples = png.data as Uint16Array;
 
-            mat16.convertTo(matF32, this.cv.CV_32F);
+        let pixels: Uint8Array;
+        if (encoding === '16UC1') {
+            pixels = new Uint8Array(samples.buffer, samples.byteOffset, samples.byteLength);
+        } else {
+            const header = new DataView(msg.data.buffer, msg.data.byteOffset, COMPRESSED_DEPTH_HEADER_BYTES);
+            const quantA = header.getFloat32(4, true);
+            const quantB = header.getFloat32(8, true);
+            pixels = new Uint8Array(Float32Array.from(samples, v => (v === 0 ? NaN : quantA / (v - quantB))).buffer);
+        }
 
-            // 类型断言修复 TS 报错
-            const result = (this.cv as any).minMaxLoc(matF32);
-            
-            const range = Math.max(result.maxVal - result.minVal, 1e-6);
-            const alpha = 255.0 / range;
-            const beta = -result.minVal * alpha;
-            
-            matF32.convertTo(normalized, this.cv.CV_8U, alpha, beta);
+        try {
+            return await this.processDepthImage(pixels, png.width, png.height, format, depthDisplay);
+        } catch (e) {
+            throw new Error(`Could not decode ${msg.format}: ${this.errorMessage(e)}`);
+        }
+    }
 
-            // COLORMAP_TURBO 通常是 20
-            this.cv.applyColorMap(normalized, colorMat, this.cv.COLORMAP_TURBO);
-            this.cv.cvtColor(colorMat, rgbMat, this.cv.COLOR_BGR2RGBA);
+    // How each encoding is laid out and turned into RGBA. The OpenCV constants only exist after init().
+    private pixelFormat(encoding: string): PixelFormat | null {
+        const cv = this.cv;
+        const color = (matType: number, channels: number, toRgba: number | null, toRgb: number | null = null): PixelFormat =>
+            ({ kind: 'color', matType, channels, bytesPerPixel: channels, toRgba, toRgb });
 
-            return this.matToCanvasUrl(rgbMat);
-        } finally {
-            mat16.delete(); matF32.delete(); normalized.delete(); colorMat.delete(); rgbMat.delete();
+        switch (encoding) {
+            case 'rgb8': return color(cv.CV_8UC3, 3, cv.COLOR_RGB2RGBA);
+            case 'bgr8':
+            case '8UC3': return color(cv.CV_8UC3, 3, cv.COLOR_BGR2RGBA); // OpenCV's own channel order
+            case 'rgba8': return color(cv.CV_8UC4, 4, null);
+            case 'bgra8':
+            case '8UC4': return color(cv.CV_8UC4, 4, cv.COLOR_BGRA2RGBA);
+            case 'mono8':
+            case '8UC1': return color(cv.CV_8UC1, 1, cv.COLOR_GRAY2RGBA);
+            // cv_bridge's mapping: OpenCV names Bayer patterns by the second row
+            case 'bayer_rggb8': return color(cv.CV_8UC1, 1, cv.COLOR_RGB2RGBA, cv.COLOR_BayerBG2RGB);
+            case 'bayer_bggr8': return color(cv.CV_8UC1, 1, cv.COLOR_RGB2RGBA, cv.COLOR_BayerRG2RGB);
+            case 'bayer_gbrg8': return color(cv.CV_8UC1, 1, cv.COLOR_RGB2RGBA, cv.COLOR_BayerGR2RGB);
+            case 'bayer_grbg8': return color(cv.CV_8UC1, 1, cv.COLOR_RGB2RGBA, cv.COLOR_BayerGB2RGB);
+            // ROS 'yuv422' is UYVY byte order
+            case 'yuv422':
+            case 'uyvy': return color(cv.CV_8UC2, 2, cv.COLOR_YUV2RGBA_UYVY);
+            case 'yuv422_yuy2':
+            case 'yuyv': return color(cv.CV_8UC2, 2, cv.COLOR_YUV2RGBA_YUY2);
+            case 'mono16': return { kind: 'mono16', matType: cv.CV_16UC1, channels: 1, bytesPerPixel: 2, toRgba: null, toRgb: null };
+            case '16UC1': return { kind: 'depth', matType: cv.CV_16UC1, channels: 1, bytesPerPixel: 2, toRgba: null, toRgb: null, unitMm: 1 };
+            case '32FC1': return { kind: 'depth', matType: cv.CV_32FC1, channels: 1, bytesPerPixel: 4, toRgba: null, toRgb: null, unitMm: 1000 };
+            default: return null;
         }
     }
 
-    private processBGR8Image(data: Uint8Array, width: number, height: number): string {
-        let src = new this.cv.Mat(height, width, this.cv.CV_8UC3);
-        let dst = new this.cv.Mat();
+    // Depth in mm (16UC1) or m (32FC1), mapped through the display range into a colormap
+    private async processDepthImage(data: Uint8Array, width: number, height: number, format: PixelFormat, display: DepthDisplay): Promise<ProcessedImage> {
+        const src = new this.cv.Mat(height, width, format.matType);
+        const matMm = new this.cv.Mat();
+        const normalized = new this.cv.Mat();
+        const colorMat = new this.cv.Mat();
+        const rgbMat = new this.cv.Mat();
+
         try {
             src.data.set(data);
-            this.cv.cvtColor(src, dst, this.cv.COLOR_BGR2RGBA);
-            return this.matToCanvasUrl(dst);
+            src.convertTo(matMm, this.cv.CV_32F, format.unitMm ?? 1, 0);
+
+            // No reading is 0 for 16UC1 and NaN/Inf for 32FC1
+            const values: Float32Array = matMm.data32F;
+            let min = display.minMm;
+            let max = display.maxMm;
+            if (display.autoRange) {
+                min = Infinity;
+                max = -Infinity;
+                for (const v of values) {
+                    if (!(v > 0) || !Number.isFinite(v)) continue;
+                    if (v < min) min = v;
+                    if (v > max) max = v;
+                }
+                if (min > max) { min = 0; max = 1; }
+            }
+            for (let i = 0; i < values.length; i++) if (!Number.isFinite(values[i])) values[i] = 0;
+
+            const alpha = 255.0 / Math.max(max - min, 1e-6);
+            matMm.convertTo(normalized, this.cv.CV_8U, alpha, -min * alpha);
+            if (display.colormap === 'gray') {
+                this.cv.cvtColor(normalized, rgbMat, this.cv.COLOR_GRAY2RGBA);
+            } else {
+                this.cv.applyColorMap(normalized, colorMat, this.colormapCode(display.colormap));
+                this.cv.cvtColor(colorMat, rgbMat, this.cv.COLOR_BGR2RGBA);
+            }
+
+            if (display.maskInvalid) {
+                const rgba: Uint8Array = rgbMat.data;
+                for (let i = 0; i < values.length; i++) {
+                    if (values[i] === 0) rgba.fill(0, i * 4, i * 4 + 3);
+                }
+            }
+
+            // Copy the readings out of the Mat's memory before it is freed
+            const samples = format.matType === this.cv.CV_16UC1 ? new Uint16Array(src.data16U) : new Float32Array(src.data32F);
+            return {
+                bitmap: await this.matToBitmap(rgbMat),
+                depth: { width, height, data: samples, unitMm: format.unitMm ?? 1 }
+            };
         } finally {
-            src.delete(); dst.delete();
+            src.delete(); matMm.delete(); normalized.delete(); colorMat.delete(); rgbMat.delete();
         }
     }
 
-    private processRGB8Image(data: Uint8Array, width: number, height: number): string {
-        let src = new this.cv.Mat(height, width, this.cv.CV_8UC3);
-        let dst = new this.cv.Mat();
+    private colormapCode(colormap: Exclude<DepthColormap, 'gray'>): number {
+        const codes: Record<typeof colormap, number> = {
+            turbo: this.cv.COLORMAP_TURBO,
+            jet: this.cv.COLORMAP_JET,
+            viridis: this.cv.COLORMAP_VIRIDIS,
+            inferno: this.cv.COLORMAP_INFERNO,
+            magma: this.cv.COLORMAP_MAGMA,
+            bone: this.cv.COLORMAP_BONE
+        };
+        return codes[colormap];
+    }
+
+    // 16-bit intensity, min-max stretched to 8-bit gray
+    private processMono16Image(data: Uint8Array, width: number, height: number): Promise<ImageBitmap> {
+        const src = new this.cv.Mat(height, width, this.cv.CV_16UC1);
+        const gray = new this.cv.Mat();
+        const dst = new this.cv.Mat();
         try {
             src.data.set(data);
-            this.cv.cvtColor(src, dst, this.cv.COLOR_RGB2RGBA);
-            return this.matToCanvasUrl(dst);
+            const result = this.cv.minMaxLoc(src);
+            const range = Math.max(result.maxVal - result.minVal, 1);
+            src.convertTo(gray, this.cv.CV_8U, 255.0 / range, -result.minVal * 255.0 / range);
+            this.cv.cvtColor(gray, dst, this.cv.COLOR_GRAY2RGBA);
+            return this.matToBitmap(dst);
         } finally {
-            src.delete(); dst.delete();
+            src.delete(); gray.delete(); dst.delete();
         }
     }
 
-    private processMono8Image(data: Uint8Array, width: number, height: number): string {
-        let src = new this.cv.Mat(height, width, this.cv.CV_8UC1);
-        let dst = new this.cv.Mat();
+    private processColorImage(data: Uint8Array, width: number, height: number, format: PixelFormat): Promise<ImageBitmap> {
+        const mats: any[] = [new this.cv.Mat(height, width, format.matType)];
         try {
-            src.data.set(data);
-            this.cv.cvtColor(src, dst, this.cv.COLOR_GRAY2RGBA);
-            return this.matToCanvasUrl(dst);
+            mats[0].data.set(data);
+            // Demosaic first for Bayer patterns, then expand to RGBA
+            for (const code of [format.toRgb, format.toRgba]) {
+                if (code === null) continue;
+                const dst = new this.cv.Mat();
+                mats.push(dst);
+                this.cv.cvtColor(mats[mats.length - 2], dst, code);
+            }
+            return this.matToBitmap(mats[mats.length - 1]);
         } finally {
-            src.delete(); dst.delete();
+            mats.forEach(m => m.delete());
         }
     }
 
-    private matToCanvasUrl(mat: any): string {
-        const canvas = document.createElement('canvas');
-        canvas.width = mat.cols;
-        canvas.height = mat.rows;
-        const ctx = canvas.getContext('2d');
-        if (!ctx) return '';
+    // OpenCV.js throws exception pointers as plain numbers
+    private errorMessage(e: unknown): string {
+        if (typeof e === 'number' && this.cv.exceptionFromPtr) return this.cv.exceptionFromPtr(e).msg;
+        return e instanceof Error ? e.message : String(e);
+    }
+
+    // Lossless: the RGBA pixels become a bitmap the page draws as-is, no re-encoding.
+    // The pixels are copied out of the Mat before it is freed by the caller.
+    private matToBitmap(mat: any): Promise<ImageBitmap> {
         const imgData = new ImageData(new Uint8ClampedArray(mat.data), mat.cols, mat.rows);
-        ctx.putImageData(imgData, 0, 0);
-        return canvas.toDataURL('image/jpeg', 0.8);
+        return createImageBitmap(imgData);
+    }
+}
+
+interface PixelFormat {
+    kind: 'color' | 'mono16' | 'depth';
+    matType: number;
+    channels: number;
+    bytesPerPixel: number;
+    toRgb: number | null; // cvtColor code applied first, e.g. demosaicing
+    toRgba: number | null; // cvtColor code to RGBA, null if the pixels already are
+    unitMm?: number; // Depth encodings: millimetres per stored unit
+}
+
+// compressed_depth_image_transport's ConfigHeader: int32 format, float32 depthQuantA, float32 depthQuantB
+const COMPRESSED_DEPTH_HEADER_BYTES = 12;
+
+const messageBytes = (msg: { data: Uint8Array | number[] }): Uint8Array => (msg.data instanceof Uint8Array ? msg.data : new Uint8Array(msg.data));
+
+/**
+ * Drop row padding (`step` > row size) and swap big-endian samples, so the result
+ * can be copied straight into a Mat. Returns a view of the input when nothing needs
+ * changing, cut to the image size since messages may carry trailing bytes.
+ */
+function packRows(src: Uint8Array, height: number, rowBytes: number, step: number, sampleBytes: number): Uint8Array {
+    if (step === rowBytes && sampleBytes === 1) return src.subarray(0, rowBytes * height);
+
+    const out = new Uint8Array(rowBytes * height);
+    for (let y = 0; y < height; y++) out.set(src.subarray(y * step, y * step + rowBytes), y * rowBytes);
+    if (sampleBytes > 1) {
+        for (let i = 0; i < out.length; i += sampleBytes) out.subarray(i, i + sampleBytes).reverse();
     }
-}
\ No newline at end of file
+    return out;
+}
@@ -0,0 +1,153 @@
+import type { JointStateMsg } from './BagIndexer';
+
+export type JointField = 'position' | 'velocity' | 'effort';
+export const JOINT_FIELDS: JointField[] = ['position', 'velocity', 'effort'];
+
+/** Columns of one JointState topic. Every array has one entry per frame, NaN where missing. */
+export interface JointTopicColumns {
+    topic: string;
+    names: string[];
+    present: Uint8Array; // 1 where the topic has a message for the frame
+    columns: Record<JointField, Float64Array[]>; // [field][joint][frame]
+}
+
+/** Plain form of a JointHistory, for posting between the worker and the page. */
+export interface JointHistoryData {
+    frameCount: number;
+    topics: JointTopicColumns[];
+}
+
+/**
+ * Per-frame joint states stored as columns: one Float64Array per topic, joint and
+ * field. Joints are addressed by `${topic}/${name}`, the same ids the chart uses.
+ */
+export class JointHistory {
+    readonly frameCount: number;
+    readonly topics: JointTopicColumns[];
+    private byId = new Map<string, { topic: JointTopicColumns; joint: number }>();
+
+    constructor(data: JointHistoryData = { frameCount: 0, topics: [] }) {
+        this.frameCount = data.frameCount;
+        this.topics = data.topics;
+        for (const topic of this.topics) {
+            topic.names.forEach((name, joint) => this.byId.set(`${topic.topic}/${name}`, { topic, joint }));
+        }
+    }
+
+    /**
+     * Build the columns from aligned messages. `indices[topic][frame]` is the message
+     * shown on that frame (-1 for none), as returned by `alignToFrames`. With `names`
+     * the columns are fixed to those joints and any others are dropped.
+     */
+    static fromMessages(frameCount: number, topics: { topic: string; messages: JointStateMsg[]; indices: Int32Array; names?: string[] }[]): JointHistory {
+        return new JointHistory({
+            frameCount,
+            topics: topics.map(({ topic, messages, indices, names }) => buildTopicColumns(topic, frameCount, messages, indices, names))
+        });
+    }
+
+    get isEmpty(): boolean {
+        return this.frameCount === 0 || this.byId.size === 0;
+    }
+
+    /** All joint ids, grouped by topic in load order. */
+    get jointIds(): string[] {
+        return Array.from(this.byId.keys());
+    }
+
+    /** The full series of one joint field, or null if the joint is unknown. Do not mutate. */
+    series(jointId: string, field: JointField): Float64Array | null {
+        const entry = this.byId.get(jointId);
+        return entry ? entry.topic.columns[field][entry.joint] : null;
+    }
+
+    value(jointId: string, field: JointField, frame: number): number {
+        return this.series(jointId, field)?.[frame] ?? NaN;
+    }
+
+    /** Rebuild the message-shaped joint states of one frame, as the URDF mapping code expects. */
+    getFrame(frame: number): Record<string, JointStateMsg> {
+        const result: Record<string, JointStateMsg> = {};
+        if (frame < 0 || frame >= this.frameCount) return result;
+
+        for (const t of this.topics) {
+            if (!t.present[frame]) continue;
+            const pick = (field: JointField) => t.columns[field].map(col => col[frame]);
+            result[t.topic] = { name: t.names, position: pick('position'), velocity: pick('velocity'), effort: pick('effort') };
+        }
+        return result;
+    }
+
+    /** Copy a slice of frames, e.g. a window loaded on demand, into these columns at `startFrame`. */
+    write(startFrame: number, slice: JointHistoryData) {
+        for (const src of slice.topics) {
+            const dst = this.topics.find(t => t.topic === src.topic);
+            if (!dst) continue;
+            dst.present.set(src.present, startFrame);
+            src.names.forEach((name, j) => {
+                const k = dst.names.indexOf(name);
+                if (k === -1) return;
+                for (const field of JOINT_FIELDS) dst.columns[field][k].set(src.columns[field][j], startFrame);
+            });
+        }
+    }
+
+    toData(): JointHistoryData {
+        return { frameCount: this.frameCount, topics: this.topics };
+    }
+
+    /** Buffers that can be transferred instead of copied when posting `toData()`. */
+    transferables(): ArrayBuffer[] {
+        return this.topics.flatMap(t => [
+            t.present.buffer as ArrayBuffer,
+            ...JOINT_FIELDS.flatMap(f => t.columns[f].map(col => col.buffer as ArrayBuffer))
+        ]);
+    }
+}
+
+/** Joint names of a message; messages without names get `joint1`, `joint2`, … by position. */
+export const jointNamesOf = (msg: JointStateMsg): string[] =>
+    msg.name && msg.name.length > 0
+        ? msg.name
+        : Array.from({ length: msg.position?.length ?? 0 }, (_, k) => `joint${k + 1}`);
+
+function buildTopicColumns(topic: string, frameCount: number, messages: JointStateMsg[], indices: Int32Array, fixedNames?: string[]): JointTopicColumns {
+    // Union of names in first-seen order; drivers may publish joints in varying order
+    const nameIndex = new Map<string, number>();
+    fixedNames?.forEach((n, k) => nameIndex.set(n, k));
+    let lastNames: string[] | null = null;
+    for (const msg of fixedNames ? [] : messages) {
+        const names = jointNamesOf(msg);
+        if (lastNames && names.length === lastNames.length && names.every((n, k) => n === lastNames![k])) continue;
+        names.forEach(n => { if (!nameIndex.has(n)) nameIndex.set(n, nameIndex.size); });
+        lastNames = names;
+    }
+
+    const jointCount = nameIndex.size;
+    const makeColumns = () => Array.from({ length: jointCount }, () => new Float64Array(frameCount).fill(NaN));
+    const columns: Record<JointField, Float64Array[]> = { position: makeColumns(), velocity: makeColumns(), effort: makeColumns() };
+    const present = new Uint8Array(frameCount);
+
+    // Consecutive frames usually show the same message, so remember its column mapping
+    let cachedMsg = -1;
+    let slots: number[] = [];
+    for (let f = 0; f < frameCount; f++) {
+        const m = indices[f];
+        if (m === -1) continue;
+        const msg = messages[m];
+        if (m !== cachedMsg) {
+            slots = jointNamesOf(msg).map(n => nameIndex.get(n) ?? -1);
+            cachedMsg = m;
+        }
+        present[f] = 1;
+        for (const field of JOINT_FIELDS) {
+            const values = msg[field];
+            if (!values) continue;
+            for (let k = 0; k < slots.length && k < values.length; k++) {
+                if (slots[k] !== -1) columns[field][slots[k]][f] = values[k];
+            }
+        }
+    }
+
+    return { topic, names: Array.from(nameIndex.keys()), present, columns };
+}
@@ -0,0 +1,155 @@
+// --- Forward Kinematics ---
+// Link poses over the whole episode, from the recorded joint states and the URDF.
+
+import * as THREE from 'three';
+import type { URDFLink, URDFRobot } from '../components/urdf/URDFClasses';
+import type { JointStateMsg } from './BagIndexer';
+import type { JointHistory } from './JointHistory';
+import type { Pose } from './TransformBuffer';
+
+/** The user's joint mapping code: recorded joint states -> URDF joint values in radians. */
+export type JointMapping = (data: Record<string, JointStateMsg>) => Record<string, number>;
+
+/** Compile the mapping code of a URDF config, or null if it doesn't parse. */
+export function compileJointMapping(code: string): JointMapping | null {
+    try {
+        // Safety: This is running local user code.
+        // Function signature: (data) => { return { ... } }
+        return new Function('data', code) as JointMapping;
+    } catch (e) {
+        console.error("Error parsing joint mapping code:", e);
+        return null;
+    }
+}
+
+/** Pose of one link on every frame, in the robot's root link frame. NaN where a frame has no joint data. */
+export interface LinkTrajectory {
+    link: string;
+    positions: Float64Array; // x, y, z per frame, metres
+    quaternions: Float64Array; // x, y, z, w per frame
+}
+
+/**
+ * Run FK for frames `start` to `end` (every frame by default) and record the pose of each
+ * of `links`; entry 0 is frame `start`. Sets joint values on `robot`, so pass a clone of
+ * the one on screen.
+ */
+export function computeLinkTrajectories(robot: URDFRobot, links: string[], history: JointHistory, mapJoints: JointMapping, start = 0, end = history.frameCount - 1): LinkTrajectory[] {
+    const frameCount = Math.max(0, end - start + 1);
+    const targets = links.filter(link => robot.links[link]);
+    const result = targets.map(link => ({
+        link,
+        positions: new Float64Array(frameCount * 3).fill(NaN),
+        quaternions: new Float64Array(frameCount * 4).fill(NaN)
+    }));
+    if (result.length === 0) return result;
+
+    const rootInverse = new THREE.Matrix4();
+    const relative = new THREE.Matrix4();
+    const position = new THREE.Vector3();
+    const quaternion = new THREE.Quaternion();
+    const scale = new THREE.Vector3();
+
+    for (let frame = 0; frame < frameCount; frame++) {
+        const data = history.getFrame(start + frame);
+        if (Object.keys(data).length === 0) continue;
+        let values: Record<string, number>;
+        try {
+            values = mapJoints(data);
+        } catch {
+            continue; // Left as NaN, like a frame without joint data
+        }
+        if (!values) continue;
+        Object.entries(values).forEach(([name, value]) => robot.joints[name]?.setJointValue(value));
+
+        robot.updateMatrixWorld(true);
+        rootInverse.copy(robot.matrixWorld).invert();
+        targets.forEach((link, i) => {
+            relative.multiplyMatrices(rootInverse, robot.links[link].matrixWorld).decompose(position, quaternion, scale);
+            position.toArray(result[i].positions, frame * 3);
+            quaternion.toArray(result[i].quaternions, frame * 4);
+        });
+    }
+    return result;
+}
+
+/** A URDF link on one frame, in the robot's root link frame. */
+export interface LinkPose {
+    pose: Pose;
+    parent: string | null; // Nearest ancestor link
+}
+
+/** Pose every link of `robot` for one frame's joint states. Empty if the mapping fails. */
+export function linkPosesAt(robot: URDFRobot, jointData: Record<string, JointStateMsg>, mapJoints: JointMapping): Record<string, LinkPose> {
+    let values: Record<string, number>;
+    try {
+        values = mapJoints(jointData);
+    } catch {
+        return {};
+    }
+    if (!values) return {};
+    Object.entries(values).forEach(([name, value]) => robot.joints[name]?.setJointValue(value));
+    robot.updateMatrixWorld(true);
+
+    const rootInverse = robot.matrixWorld.clone().invert();
+    const relative = new THREE.Matrix4();
+    const position = new THREE.Vector3();
+    const quaternion = new THREE.Quaternion();
+    const scale = new THREE.Vector3();
+    const result: Record<string, LinkPose> = {};
+    Object.entries(robot.links).forEach(([name, link]) => {
+        relative.multiplyMatrices(rootInverse, link.matrixWorld).decompose(position, quaternion, scale);
+        let ancestor = link.parent;
+        while (ancestor && !(ancestor as URDFLink).isURDFLink) ancestor = ancestor.parent;
+        result[name] = {
+            pose: { translation: position.toArray(), rotation: quaternion.toArray() as Pose['rotation'] },
+            parent: ancestor ? (ancestor as URDFLink).urdfName : null
+        };
+    });
+    return result;
+}
+
+// Trail links in order: the 3D trail and the image overlay use the same color
+export const TRAIL_COLORS = ['#f472b6', '#a3e635', '#facc15', '#38bdf8'];
+
+export const FK_SIGNAL_PREFIX = '/fk/';
+
+/**
+ * Chartable series of a trajectory, named like field paths: `/fk/<link>.position.x|y|z`
+ * in metres and `/fk/<link>.speed` in m/s.
+ */
+export function trajectorySignals(trajectory: LinkTrajectory, timestamps: number[]): Map<string, Float64Array> {
+    const { positions } = trajectory;
+    const count = positions.length / 3;
+    const base = `${FK_SIGNAL_PREFIX}${trajectory.link}`;
+    const signals = new Map<string, Float64Array>();
+    ['x', 'y', 'z'].forEach((axis, k) => signals.set(`${base}.position.${axis}`, Float64Array.from({ length: count }, (_, i) => positions[i * 3 + k])));
+
+    // Central differences, one-sided at the ends
+    const speed = new Float64Array(count).fill(NaN);
+    for (let i = 0; i < count; i++) {
+        const a = Math.max(0, i - 1), b = Math.min(count - 1, i + 1);
+        const dt = (timestamps[b] - timestamps[a]) / 1000;
+        if (dt <= 0) continue;
+        const dx = positions[b * 3] - positions[a * 3];
+        const dy = positions[b * 3 + 1] - positions[a * 3 + 1];
+        const dz = positions[b * 3 + 2] - positions[a * 3 + 2];
+        speed[i] = Math.hypot(dx, dy, dz) / dt;
+    }
+    signals.set(`${base}.speed`, speed);
+    return signals;
+}
+
+/**
+ * Cartesian state and action of a link for dataset export: `state[i]` is the pose on
+ * frame i as [x, y, z, qx, qy, qz, qw], `action[i]` the pose reached on the next frame.
+ */
+export function cartesianStateAction(trajectory: LinkTrajectory): { state: number[][]; action: number[][] } {
+    const count = trajectory.positions.length / 3;
+    const state = Array.from({ length: count }, (_, i) => [
+        ...trajectory.positions.subarray(i * 3, i * 3 + 3),
+        ...trajectory.quaternions.subarray(i * 4, i * 4 + 4)
+    ]);
+    const action = state.map((_, i) => state[Math.min(i + 1, count - 1)]);
+    return { state, action };
+}
@@ -0,0 +1,347 @@
+// --- LeRobot Dataset Export ---
+// A LeRobot v2.1 dataset, as files relative to its root:
+//   data/chunk-000/episode_000000.parquet                                state, action, FK poses, timestamp, indices, task
+//   videos/chunk-000/observation.images.<cam>/episode_000000.mp4          H.264 via WebCodecs
+//   (or images/observation.images.<cam>/episode_000000/frame_000000.png  frames to encode with ffmpeg later)
+//   meta/info.json, meta/tasks.jsonl, meta/episodes.jsonl, meta/episodes_stats.jsonl
+
+import { parquetWriteBuffer } from 'hyparquet-writer';
+import { ArrayBufferTarget, Muxer } from 'mp4-muxer';
+import type { BagService } from './BagService';
+import { cameraName, forEachFrame, jointColumns, jointName, poseColumns, probeCameras, selectJoints, type DatasetExportOptions, type ExportSegment, type FrameLabels } from './DatasetExport';
+import type { SyncOptions } from './TimelineSync';
+
+export interface LeRobotExportOptions extends DatasetExportOptions {
+    fps: number; // Timestamps are frame_index / fps, as LeRobot checks them against the videos
+    videos: boolean; // false: PNG image folders instead of MP4
+    defaultTask: string; // Task of frames outside every subtask
+}
+
+const CODEBASE_VERSION = 'v2.1';
+const CHUNK_SIZE = 1000; // Episodes per chunk directory
+const VIDEO_CODEC = 'avc1.640033'; // H.264 High, level 5.1: up to 4K
+const STATS_PIXEL_STRIDE = 16; // Image stats sample every 16th pixel
+
+const pad = (n: number, width: number) => String(n).padStart(width, '0');
+
+/** Dataset frame rate for a recording: the sync rate, or the median frame spacing of a master-topic timeline. */
+export function recordingFps(timestamps: number[], sync: SyncOptions): number {
+    if (sync.mode === 'fixed-rate') return sync.rateHz;
+    if (timestamps.length < 2) return 30;
+    const diffs = timestamps.slice(1).map((t, i) => t - timestamps[i]).sort((a, b) => a - b);
+    return Math.max(1, Math.round(1000 / diffs[Math.floor(diffs.length / 2)]));
+}
+
+/** Whether this browser can encode the dataset videos. */
+export async function canEncodeVideo(): Promise<boolean> {
+    if (typeof VideoEncoder === 'undefined') return false;
+    const { supported } = await VideoEncoder.isConfigSupported({ codec: VIDEO_CODEC, width: 640, height: 480 });
+    return !!supported;
+}
+
+/**
+ * Write every episode and the metadata. Frames are decoded through `bagService` in order,
+ * so this takes about as long as playing the episodes through once. Returns file contents by path.
+ */
+export async function writeLeRobotDataset(
+    bagService: BagService,
+    episodes: { segment: ExportSegment; labels: FrameLabels }[],
+    options: LeRobotExportOptions,
+    onProgress: (episode: number, fraction: number) => void,
+    signal?: AbortSignal
+): Promise<Record<string, Uint8Array>> {
+    const files: Record<string, Uint8Array> = {};
+    const tasks: string[] = [];
+    const taskIndex = (task: string) => {
+        if (!tasks.includes(task)) tasks.push(task);
+        return tasks.indexOf(task);
+    };
+    const episodeLines: string[] = [];
+    const statsLines: string[] = [];
+    // Found before the first episode is written; H.264 wants even sizes
+    const cameraSizes = new Map(Array.from(await probeCameras(bagService, episodes.map(e => e.segment), options.imageTopics, signal),
+        ([topic, { width, height }]) => [topic, { width: width & ~1, height: height & ~1 }]));
+    const cameraKey = (topic: string) => `observation.images.${cameraName(topic)}`;
+    const history = () => bagService.jointHistory; // Replaced as index-only windows load
+    let joints = selectJoints(history(), options);
+    let poseNames: string[] = []; // FK pose columns, empty without end-effector links
+    let index = 0; // Across episodes
+
+    for (const [episode, { segment, labels }] of episodes.entries()) {
+        const count = segment.end - segment.start + 1;
+        const chunk = `chunk-${pad(Math.floor(episode / CHUNK_SIZE), 3)}`;
+        const episodeName = `episode_${pad(episode, 6)}`;
+        const stats: Record<string, FeatureStats> = {};
+
+        // --- Cameras ---
+        // Every camera gets a video in every episode, black on frames without an image
+        const cameras = new Map(Array.from(cameraSizes, ([topic, { width, height }]) => [topic, new CameraWriter(width, height, options.fps, options.videos)]));
+        try {
+            await forEachFrame(bagService, segment, cameras.size > 0, async (i, frame) => {
+                // Draw every camera before the first await: read-ahead decodes landing meanwhile may evict the frame and close its bitmaps
+                cameras.forEach((camera, topic) => camera.draw(frame?.images[topic] ?? null));
+                for (const [topic, camera] of cameras) {
+                    await camera.add(files, `images/${cameraKey(topic)}/${episodeName}`);
+                }
+                onProgress(episode, (i + 1) / count);
+            }, signal);
+
+            for (const [topic, camera] of cameras) {
+                const video = await camera.finish();
+                if (video) files[`videos/${chunk}/${cameraKey(topic)}/${episodeName}.mp4`] = video;
+                stats[cameraKey(topic)] = camera.stats();
+            }
+        } finally {
+            // Frees the codecs of an aborted or failed episode
+            cameras.forEach(camera => camera.close());
+        }
+
+        // --- Frame table ---
+        joints = selectJoints(history(), options);
+        const state = jointColumns(history(), joints.state, 'position', segment);
+        const action = jointColumns(history(), joints.action, 'position', segment, options.actionTopic ? 0 : 1);
+        const pose = options.endEffector ? poseColumns(history(), options.endEffector, segment) : null;
+        poseNames = pose?.names ?? [];
+        const prompts = labels.prompt.map(p => p || options.defaultTask);
+        const frameIndex = Array.from({ length: count }, (_, i) => i);
+        const poseColumnData = pose && poseNames.length > 0 ? [
+            { name: 'observation.ee_pose', data: rows(pose.state, poseNames.length) },
+            { name: 'action.ee_pose', data: rows(pose.action, poseNames.length) }
+        ] : [];
+        const columns = {
+            'observation.state': rows(state, joints.state.length),
+            action: rows(action, joints.action.length),
+            timestamp: frameIndex.map(i => i / options.fps),
+            frame_index: frameIndex,
+            episode_index: frameIndex.map(() => episode),
+            index: frameIndex.map(i => index + i),
+            task_index: prompts.map(taskIndex)
+        };
+        files[`data/${chunk}/${episodeName}.parquet`] = new Uint8Array(parquetWriteBuffer({
+            columnData: [
+                { name: 'observation.state', data: columns['observation.state'] },
+                { name: 'action', data: columns.action },
+                ...poseColumnData,
+                { name: 'timestamp', data: columns.timestamp },
+                { name: 'frame_index', data: columns.frame_index.map(BigInt) },
+                { name: 'episode_index', data: columns.episode_index.map(BigInt) },
+                { name: 'index', data: columns.index.map(BigInt) },
+                { name: 'task_index', data: columns.task_index.map(BigInt) }
+            ],
+            schema: [
+                { name: 'schema', num_children: 7 + poseColumnData.length },
+                ...listSchema('observation.state'),
+                ...listSchema('action'),
+                ...poseColumnData.flatMap(c => listSchema(c.name)),
+                { name: 'timestamp', type: 'FLOAT', repetition_type: 'REQUIRED' },
+                ...['frame_index', 'episode_index', 'index', 'task_index'].map(name => ({ name, type: 'INT64' as const, repetition_type: 'REQUIRED' as const }))
+            ]
+        }));
+        index += count;
+
+        stats['observation.state'] = vectorStats(state, joints.state.length);
+        stats.action = vectorStats(action, joints.action.length);
+        if (pose && poseNames.length > 0) {
+            stats['observation.ee_pose'] = vectorStats(pose.state, poseNames.length);
+            stats['action.ee_pose'] = vectorStats(pose.action, poseNames.length);
+        }
+        (['timestamp', 'frame_index', 'episode_index', 'index', 'task_index'] as const).forEach(key => {
+            stats[key] = vectorStats(Float64Array.from(columns[key]), 1);
+        });
+
+        episodeLines.push(JSON.stringify({ episode_index: episode, tasks: Array.from(new Set(prompts)), length: count }));
+        statsLines.push(JSON.stringify({ episode_index: episode, stats }));
+    }
+
+    // --- Metadata ---
+    const encoder = new TextEncoder();
+    const jsonl = (lines: string[]) => encoder.encode(lines.map(l => `${l}\n`).join(''));
+    const vector = (names: string[]) => ({ dtype: 'float32', shape: [names.length], names });
+    const scalar = (dtype: string) => ({ dtype, shape: [1], names: null });
+
+    const info = {
+        codebase_version: CODEBASE_VERSION,
+        robot_type: null,
+        total_episodes: episodes.length,
+        total_frames: index,
+        total_tasks: tasks.length,
+        total_videos: options.videos ? episodes.length * cameraSizes.size : 0,
+        total_chunks: Math.ceil(episodes.length / CHUNK_SIZE),
+        chunks_size: CHUNK_SIZE,
+        fps: options.fps,
+        splits: { train: `0:${episodes.length}` },
+        data_path: 'data/chunk-{episode_chunk:03d}/episode_{episode_index:06d}.parquet',
+        video_path: options.videos && cameraSizes.size > 0 ? 'videos/chunk-{episode_chunk:03d}/{video_key}/episode_{episode_index:06d}.mp4' : null,
+        features: {
+            'observation.state': vector(joints.state.map(jointName)),
+            action: vector(joints.action.map(jointName)),
+            ...(poseNames.length > 0 ? { 'observation.ee_pose': vector(poseNames), 'action.ee_pose': vector(poseNames) } : {}),
+            ...Object.fromEntries(Array.from(cameraSizes, ([topic, { width, height }]) => [cameraKey(topic), !options.videos ? {
+                dtype: 'image',
+                shape: [height, width, 3],
+                names: ['height', 'width', 'channels']
+            } : {
+                dtype: 'video',
+                shape: [height, width, 3],
+                names: ['height', 'width', 'channels'],
+                info: {
+                    'video.height': height,
+                    'video.width': width,
+                    'video.codec': 'h264',
+                    'video.pix_fmt': 'yuv420p',
+                    'video.is_depth_map': false,
+                    'video.fps': options.fps,
+                    'video.channels': 3,
+                    has_audio: false
+                }
+            }])),
+            timestamp: scalar('float32'),
+            frame_index: scalar('int64'),
+            episode_index: scalar('int64'),
+            index: scalar('int64'),
+            task_index: scalar('int64')
+        }
+    };
+    files['meta/info.json'] = encoder.encode(JSON.stringify(info, null, 4));
+    files['meta/tasks.jsonl'] = jsonl(tasks.map((task, i) => JSON.stringify({ task_index: i, task })));
+    files['meta/episodes.jsonl'] = jsonl(episodeLines);
+    files['meta/episodes_stats.jsonl'] = jsonl(statsLines);
+    return files;
+}
+
+// --- Parquet Helpers ---
+const rows = (data: Float64Array, width: number): number[][] =>
+    Array.from({ length: width > 0 ? data.length / width : 0 }, (_, i) => Array.from(data.subarray(i * width, (i + 1) * width)));
+
+// Three-level LIST of float32, the layout pyarrow writes for list<float>
+const listSchema = (name: string) => [
+    { name, repetition_type: 'REQUIRED' as const, converted_type: 'LIST' as const, num_children: 1 },
+    { name: 'list', repetition_type: 'REPEATED' as const, num_children: 1 },
+    { name: 'element', type: 'FLOAT' as const, repetition_type: 'REQUIRED' as const }
+];
+
+// --- Episode Stats ---
+interface FeatureStats {
+    min: unknown[];
+    max: unknown[];
+    mean: unknown[];
+    std: unknown[];
+    count: number[];
+}
+
+/** Per-dimension stats of row-major [frame][dim] data, skipping non-finite values. */
+function vectorStats(data: Float64Array, width: number): FeatureStats {
+    const acc = Array.from({ length: width }, () => new ChannelStats());
+    data.forEach((v, k) => acc[k % width].add(v));
+    return {
+        min: acc.map(a => a.min),
+        max: acc.map(a => a.max),
+        mean: acc.map(a => a.mean),
+        std: acc.map(a => a.std),
+        count: [width > 0 ? data.length / width : 0]
+    };
+}
+
+class ChannelStats {
+    min = Infinity;
+    max = -Infinity;
+    private n = 0;
+    private sum = 0;
+    private sumSq = 0;
+
+    add(v: number) {
+        if (!Number.isFinite(v)) return;
+        if (v < this.min) this.min = v;
+        if (v > this.max) this.max = v;
+        this.n++;
+        this.sum += v;
+        this.sumSq += v * v;
+    }
+
+    get mean() { return this.n > 0 ? this.sum / this.n : 0; }
+    get std() { return this.n > 0 ? Math.sqrt(Math.max(0, this.sumSq / this.n - this.mean ** 2)) : 0; }
+}
+
+// --- Cameras ---
+/** One camera of one episode: frames go to an MP4 (or PNG files), with LeRobot's per-channel stats in [0, 1]. */
+class CameraWriter {
+    private frameCount = 0;
+    private canvas: OffscreenCanvas;
+    private ctx: OffscreenCanvasRenderingContext2D;
+    private fps: number;
+    private channels = [new ChannelStats(), new ChannelStats(), new ChannelStats()];
+    private encoder: VideoEncoder | null = null;
+    private muxer: Muxer<ArrayBufferTarget> | null = null;
+    private error: Error | null = null;
+
+    constructor(width: number, height: number, fps: number, video: boolean) {
+        this.canvas = new OffscreenCanvas(width, height);
+        this.ctx = this.canvas.getContext('2d')!;
+        this.fps = fps;
+        if (!video) return;
+
+        const muxer = new Muxer({ target: new ArrayBufferTarget(), video: { codec: 'avc', width, height }, fastStart: 'in-memory' });
+        this.muxer = muxer;
+        this.encoder = new VideoEncoder({
+            output: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+            error: e => { this.error = e; }
+        });
+        this.encoder.configure({ codec: VIDEO_CODEC, width, height, framerate: fps, bitrate: width * height * fps * 0.1 });
+    }
+
+    /** Draw the next frame onto the canvas, where `add` picks it up; null draws black. */
+    draw(bitmap: ImageBitmap | null) {
+        const { width, height } = this.canvas;
+        this.ctx.fillStyle = '#000';
+        this.ctx.fillRect(0, 0, width, height);
+        if (bitmap) this.ctx.drawImage(bitmap, 0, 0, width, height);
+
+        const rgba = this.ctx.getImageData(0, 0, width, height).data;
+        for (let p = 0; p < rgba.length; p += 4 * STATS_PIXEL_STRIDE) {
+            for (let c = 0; c < 3; c++) this.channels[c].add(rgba[p + c] / 255);
+        }
+    }
+
+    /** Add the drawn frame to the video. PNGs go into `files` under `folder`. */
+    async add(files: Record<string, Uint8Array>, folder: string) {
+        if (this.error) throw this.error;
+        if (this.encoder) {
+            // Let the encoder catch up rather than queueing the whole episode
+            while (this.encoder.encodeQueueSize > 8) await new Promise(resolve => { this.encoder!.ondequeue = resolve; });
+            const frame = new VideoFrame(this.canvas, { timestamp: Math.round(this.frameCount * 1e6 / this.fps), duration: Math.round(1e6 / this.fps) });
+            this.encoder.encode(frame, { keyFrame: this.frameCount % Math.max(1, Math.round(this.fps * 2)) === 0 });
+            frame.close();
+        } else {
+            const blob = await this.canvas.convertToBlob({ type: 'image/png' });
+            files[`${folder}/frame_${pad(this.frameCount, 6)}.png`] = new Uint8Array(await blob.arrayBuffer());
+        }
+        this.frameCount++;
+    }
+
+    /** Release the encoder, whether or not the video was finished. */
+    close() {
+        if (this.encoder && this.encoder.state !== 'closed') this.encoder.close();
+    }
+
+    /** The MP4, or null when writing PNGs. */
+    async finish(): Promise<Uint8Array | null> {
+        if (!this.encoder || !this.muxer) return null;
+        await this.encoder.flush();
+        this.encoder.close();
+        if (this.error) throw this.error;
+        this.muxer.finalize();
+        return new Uint8Array(this.muxer.target.buffer);
+    }
+
+    // Shaped [3, 1, 1] like LeRobot's image stats
+    stats(): FeatureStats {
+        const perChannel = (pick: (c: ChannelStats) => number) => this.channels.map(c => [[pick(c)]]);
+        return {
+            min: perChannel(c => c.min),
+            max: perChannel(c => c.max),
+            mean: perChannel(c => c.mean),
+            std: perChannel(c => c.std),
+            count: [this.frameCount]
+        };
+    }
+}
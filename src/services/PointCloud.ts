@@ -0,0 +1,119 @@
+// --- sensor_msgs/PointCloud2 decoding ---
+
+interface PointField {
+    name: string;
+    offset: number;
+    datatype: number;
+    count: number;
+}
+
+export interface PointCloud2Msg {
+    header?: { frame_id?: string };
+    height: number;
+    width: number;
+    fields: PointField[];
+    is_bigendian: boolean;
+    point_step: number;
+    row_step: number;
+    data: Uint8Array;
+}
+
+/** Points ready for a Three.js BufferGeometry, in the cloud's own frame. Invalid (NaN) points are dropped. */
+export interface PointCloudData {
+    frameId: string;
+    count: number;
+    positions: Float32Array; // xyz per point
+    colors: Uint8Array | null; // rgb per point, from an rgb/rgba field or the intensity
+}
+
+// sensor_msgs/PointField datatypes
+const INT8 = 1, UINT8 = 2, INT16 = 3, UINT16 = 4, INT32 = 5, UINT32 = 6, FLOAT32 = 7, FLOAT64 = 8;
+
+type FieldReader = (view: DataView, offset: number) => number;
+
+function fieldReader(field: PointField, littleEndian: boolean): FieldReader {
+    const at = field.offset;
+    switch (field.datatype) {
+        case INT8: return (v, o) => v.getInt8(o + at);
+        case UINT8: return (v, o) => v.getUint8(o + at);
+        case INT16: return (v, o) => v.getInt16(o + at, littleEndian);
+        case UINT16: return (v, o) => v.getUint16(o + at, littleEndian);
+        case INT32: return (v, o) => v.getInt32(o + at, littleEndian);
+        case UINT32: return (v, o) => v.getUint32(o + at, littleEndian);
+        case FLOAT32: return (v, o) => v.getFloat32(o + at, littleEndian);
+        case FLOAT64: return (v, o) => v.getFloat64(o + at, littleEndian);
+        default: throw new Error(`Unsupported PointField datatype ${field.datatype} for '${field.name}'`);
+    }
+}
+
+/** Decode xyz plus rgb (packed in an rgb/rgba field) or intensity (shaded dark to bright). */
+export function decodePointCloud(msg: PointCloud2Msg): PointCloudData {
+    const byName = new Map(msg.fields.map(f => [f.name, f]));
+    const [fx, fy, fz] = ['x', 'y', 'z'].map(n => byName.get(n));
+    if (!fx || !fy || !fz) throw new Error('PointCloud2 has no x/y/z fields');
+
+    const littleEndian = !msg.is_bigendian;
+    const readX = fieldReader(fx, littleEndian);
+    const readY = fieldReader(fy, littleEndian);
+    const readZ = fieldReader(fz, littleEndian);
+
+    // rgb is a float32 or uint32 holding 0x00RRGGBB; its bits matter, not its value
+    const rgbField = byName.get('rgb') ?? byName.get('rgba');
+    const readRgb = rgbField && (rgbField.datatype === FLOAT32 || rgbField.datatype === UINT32)
+        ? (v: DataView, o: number) => v.getUint32(o + rgbField.offset, littleEndian)
+        : null;
+    const intensityField = readRgb ? undefined : byName.get('intensity');
+    const readIntensity = intensityField ? fieldReader(intensityField, littleEndian) : null;
+
+    const total = msg.width * msg.height;
+    const view = new DataView(msg.data.buffer, msg.data.byteOffset, msg.data.byteLength);
+    const positions = new Float32Array(total * 3);
+    const colors = readRgb || readIntensity ? new Uint8Array(total * 3) : null;
+    const intensities = readIntensity ? new Float32Array(total) : null;
+
+    let count = 0;
+    for (let row = 0; row < msg.height; row++) {
+        for (let col = 0; col < msg.width; col++) {
+            const offset = row * msg.row_step + col * msg.point_step;
+            if (offset + msg.point_step > msg.data.byteLength) break;
+            const x = readX(view, offset);
+            const y = readY(view, offset);
+            const z = readZ(view, offset);
+            if (!Number.isFinite(x) || !Number.isFinite(y) || !Number.isFinite(z)) continue;
+
+            positions[count * 3] = x;
+            positions[count * 3 + 1] = y;
+            positions[count * 3 + 2] = z;
+            if (readRgb && colors) {
+                const rgb = readRgb(view, offset);
+                colors[count * 3] = (rgb >> 16) & 0xff;
+                colors[count * 3 + 1] = (rgb >> 8) & 0xff;
+                colors[count * 3 + 2] = rgb & 0xff;
+            } else if (readIntensity && intensities) {
+                intensities[count] = readIntensity(view, offset);
+            }
+            count++;
+        }
+    }
+
+    if (intensities && colors) {
+        let min = Infinity;
+        let max = -Infinity;
+        for (let i = 0; i < count; i++) {
+            if (intensities[i] < min) min = intensities[i];
+            if (intensities[i] > max) max = intensities[i];
+        }
+        const scale = max > min ? 1 / (max - min) : 0;
+        for (let i = 0; i < count; i++) {
+            const shade = Math.round(64 + 191 * (intensities[i] - min) * scale);
+            colors.fill(shade, i * 3, i * 3 + 3);
+        }
+    }
+
+    return {
+        frameId: msg.header?.frame_id ?? '',
+        count,
+        positions: positions.slice(0, count * 3),
+        colors: colors ? colors.slice(0, count * 3) : null
+    };
+}
@@ -0,0 +1,92 @@
+// --- Annotation Session Autosave ---
+// Sessions are kept in IndexedDB under a content key of the recording, so the same bag
+// finds its labels again whatever it is called or wherever it was opened from.
+
+const DB_NAME = 'rosbag-annotator';
+const DB_VERSION = 1;
+const STORE = 'sessions';
+
+const SAMPLE_BYTES = 64 * 1024;
+const SAMPLES_PER_FILE = 16; // Spread evenly from the first byte to the last
+
+/** What Export JSON writes, less diagnostics and poses; read back with `readAnnotationExport`. */
+export interface SessionAnnotations {
+    filename: string;
+    metadata: { totalFrames: number; startTime: number; duration: number };
+    subtasks: unknown[];
+    contacts: unknown[];
+}
+
+export interface SavedSession {
+    key: string; // From `recordingKey`
+    fileName: string;
+    fileSize: number; // Bytes, over all split files
+    savedAt: number; // ms since epoch
+    annotations: SessionAnnotations;
+}
+
+/**
+ * A key for the recording's contents: the size of each file plus a SHA-256 over samples
+ * spread through it. Cheap on multi-GB bags, and renaming or moving a file keeps the key.
+ */
+export async function recordingKey(files: File[]): Promise<string> {
+    const parts: BlobPart[] = [];
+    for (const file of files) {
+        parts.push(`${file.size};`);
+        if (file.size <= SAMPLE_BYTES * SAMPLES_PER_FILE) {
+            parts.push(file);
+            continue;
+        }
+        for (let i = 0; i < SAMPLES_PER_FILE; i++) {
+            const offset = Math.floor((file.size - SAMPLE_BYTES) * i / (SAMPLES_PER_FILE - 1));
+            parts.push(file.slice(offset, offset + SAMPLE_BYTES));
+        }
+    }
+    const digest = await crypto.subtle.digest('SHA-256', await new Blob(parts).arrayBuffer());
+    const hex = Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+    return `${files.reduce((n, f) => n + f.size, 0)}-${hex}`;
+}
+
+export const loadSession = (key: string): Promise<SavedSession | undefined> =>
+    withStore('readonly', store => store.get(key));
+
+export async function listSessions(): Promise<SavedSession[]> {
+    const sessions: SavedSession[] = await withStore('readonly', store => store.getAll());
+    return sessions.sort((a, b) => b.savedAt - a.savedAt);
+}
+
+export async function saveSession(session: SavedSession): Promise<void> {
+    await withStore('readwrite', store => store.put(session));
+}
+
+export async function deleteSession(key: string): Promise<void> {
+    await withStore('readwrite', store => store.delete(key));
+}
+
+// --- IndexedDB ---
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+    dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => request.result.createObjectStore(STORE, { keyPath: 'key' });
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    }).catch(err => {
+        dbPromise = null; // Let a later call try again
+        throw err;
+    });
+    return dbPromise;
+}
+
+// Resolves once the transaction has committed, so a resolved save is on disk
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await openDb();
+    return new Promise<T>((resolve, reject) => {
+        const tx = db.transaction(STORE, mode);
+        const request = run(tx.objectStore(STORE));
+        tx.oncomplete = () => resolve(request.result);
+        tx.onerror = () => reject(tx.error ?? request.error);
+        tx.onabort = () => reject(tx.error ?? new Error('IndexedDB transaction aborted.'));
+    });
+}
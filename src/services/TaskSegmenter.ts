@@ -0,0 +1,107 @@
+// --- Auto-segmentation from a discrete task-state topic ---
+
+export interface LabelRule {
+    match: string; // Value of the key field this rule applies to
+    template: string; // e.g. 'pick the {instruction} cable'
+}
+
+export interface SegmentationConfig {
+    topic: string; // Topic whose value changes start new subtasks, '' to disable
+    field: string; // Field inside the message, e.g. 'data' for std_msgs/String; '' for the whole message
+    parseJson: boolean; // Treat the value as JSON so templates can use its fields
+    keyField: string; // JSON field that picks the rule, e.g. 'phase'
+    rules: LabelRule[];
+    fallbackTemplate: string; // Used when no rule matches; {value} is the raw value
+}
+
+export interface TaskSegment {
+    start: number;
+    end: number;
+    prompt: string;
+}
+
+// Labels of the cable insertion project this tool was first built for
+export const CABLE_PRESET: SegmentationConfig = {
+    topic: '/puppet/task_state',
+    field: 'data',
+    parseJson: true,
+    keyField: 'phase',
+    rules: [
+        { match: 'move', template: 'move' },
+        { match: 'pick', template: 'pick the {instruction} cable' },
+        { match: 'insert', template: 'insert the {instruction} cable' }
+    ],
+    fallbackTemplate: '{phase} {instruction}'
+};
+
+export const RAW_STRING_PRESET: SegmentationConfig = {
+    topic: '/task_state',
+    field: 'data',
+    parseJson: false,
+    keyField: '',
+    rules: [],
+    fallbackTemplate: '{value}'
+};
+
+export const SEGMENTATION_PRESETS: { label: string; config: SegmentationConfig }[] = [
+    { label: 'Cable (JSON phase)', config: CABLE_PRESET },
+    { label: 'Raw String', config: RAW_STRING_PRESET }
+];
+
+const lookup = (data: unknown, path: string): unknown =>
+    path.split('.').reduce<unknown>((v, key) => (v != null && typeof v === 'object' ? (v as Record<string, unknown>)[key] : undefined), data);
+
+/** Replace `{field}` / `{a.b}` placeholders; missing fields become empty. */
+export function fillTemplate(template: string, vars: unknown): string {
+    return template
+        .replace(/\{([\w.]+)\}/g, (_, path: string) => {
+            const v = lookup(vars, path);
+            if (v == null) return '';
+            return typeof v === 'object' ? JSON.stringify(v) : String(v);
+        })
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+/** Turn one raw task-state value into a subtask prompt. */
+export function formatTaskLabel(raw: string, config: SegmentationConfig): string {
+    if (!raw) return '';
+
+    let vars: Record<string, unknown> = { value: raw };
+    let key = raw;
+    if (config.parseJson) {
+        try {
+            const data = JSON.parse(raw);
+            if (data && typeof data === 'object') {
+                vars = { ...data, value: raw };
+                key = String(lookup(data, config.keyField) ?? '');
+            }
+        } catch {
+            // If not JSON, return the original string
+            return raw;
+        }
+    }
+
+    const rule = config.rules.find(r => r.match === key);
+    return fillTemplate(rule ? rule.template : config.fallbackTemplate, vars);
+}
+
+/**
+ * Split per-frame raw values into segments wherever the formatted label changes.
+ * Frames with an empty label are left uncovered.
+ */
+export function segmentTaskStates(states: string[], config: SegmentationConfig): TaskSegment[] {
+    const segments: TaskSegment[] = [];
+    let current = '';
+    let start = 0;
+
+    // Compare formatted labels, so e.g. changing timestamps inside the JSON don't split segments
+    for (let i = 0; i <= states.length; i++) {
+        const label = i < states.length ? formatTaskLabel(states[i], config) : '';
+        if (i < states.length && label === current) continue;
+        if (current !== '') segments.push({ start, end: i - 1, prompt: current });
+        current = label;
+        start = i;
+    }
+    return segments;
+}
@@ -0,0 +1,101 @@
+// --- Timeline Sync Policy ---
+export type SyncMode = 'fixed-rate' | 'master-topic';
+
+// 'hold': last message at or before the frame (zero-order hold)
+// 'nearest': closest message in time, before or after the frame
+export type SyncMatching = 'hold' | 'nearest';
+
+// Per-topic correction for transport latency
+export interface TopicTiming {
+    useHeaderStamp: boolean; // Align on header.stamp instead of the bag record time
+    offsetMs: number; // Added to the message time, e.g. -50 to pull a laggy camera earlier
+}
+
+export interface SyncOptions {
+    mode: SyncMode;
+    rateHz: number; // Used by 'fixed-rate'
+    masterTopic: string; // Used by 'master-topic': its message times define the frames
+    matching: SyncMatching;
+    topicTiming: Record<string, TopicTiming>; // Only topics that differ from the default
+}
+
+export const DEFAULT_TOPIC_TIMING: TopicTiming = { useHeaderStamp: false, offsetMs: 0 };
+
+export const DEFAULT_SYNC_OPTIONS: SyncOptions = {
+    mode: 'fixed-rate',
+    rateHz: 30,
+    masterTopic: '',
+    matching: 'hold',
+    topicTiming: {}
+};
+
+export const RATE_PRESETS = [10, 15, 30, 50];
+
+export const describeSync = (sync: SyncOptions): string => {
+    const base = sync.mode === 'master-topic'
+        ? `${sync.masterTopic} / ${sync.matching}`
+        : `${sync.rateHz} Hz / ${sync.matching}`;
+    const adjusted = Object.keys(sync.topicTiming).length;
+    return adjusted > 0 ? `${base} / ${adjusted} adj` : base;
+};
+
+interface StampedMessage {
+    header?: { stamp?: { sec: number; nsec: number } };
+}
+
+/**
+ * Time (ms) a message is aligned on: its record time or header.stamp, plus the
+ * topic's manual offset. Messages without a usable stamp keep the record time.
+ */
+export function effectiveTimeMs(recordMs: number, message: unknown, timing: TopicTiming | undefined): number {
+    if (!timing) return recordMs;
+    let t = recordMs;
+    if (timing.useHeaderStamp) {
+        const stamp = (message as StampedMessage | undefined)?.header?.stamp;
+        if (stamp && (stamp.sec !== 0 || stamp.nsec !== 0)) t = stamp.sec * 1000 + stamp.nsec / 1e6;
+    }
+    return t + timing.offsetMs;
+}
+
+/**
+ * Frame times (ms) between `start` and `end`: a fixed grid, or the master
+ * topic's own message times.
+ */
+export function buildFrameTimes(start: number, end: number, sync: SyncOptions, masterTimes?: number[]): number[] {
+    if (sync.mode === 'master-topic') {
+        if (!masterTimes || masterTimes.length === 0) {
+            throw new Error(`Master topic ${sync.masterTopic || '(none)'} has no messages.`);
+        }
+        return masterTimes.filter(t => t >= start && t <= end);
+    }
+
+    if (!(sync.rateHz > 0)) throw new Error(`Invalid frame rate: ${sync.rateHz}`);
+    const period = 1000 / sync.rateHz;
+    const frames: number[] = [];
+    for (let i = 0; start + i * period <= end; i++) frames.push(start + i * period);
+    return frames;
+}
+
+/**
+ * For every frame, the index of the message to show from a topic, or -1 if none.
+ * Both arrays must be sorted ascending.
+ */
+export function alignToFrames(frameTimes: number[], msgTimes: number[], matching: SyncMatching): Int32Array {
+    const result = new Int32Array(frameTimes.length).fill(-1);
+    let cursor = -1; // Last message at or before the frame time
+
+    for (let f = 0; f < frameTimes.length; f++) {
+        const t = frameTimes[f];
+        while (cursor + 1 < msgTimes.length && msgTimes[cursor + 1] <= t) cursor++;
+
+        if (matching === 'hold') {
+            result[f] = cursor;
+            continue;
+        }
+        const next = cursor + 1 < msgTimes.length ? cursor + 1 : -1;
+        if (cursor === -1) result[f] = next;
+        else if (next === -1) result[f] = cursor;
+        else result[f] = (t - msgTimes[cursor]) <= (msgTimes[next] - t) ? cursor : next;
+    }
+    return result;
+}
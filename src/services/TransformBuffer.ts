@@ -0,0 +1,218 @@
+// --- TF Transform Buffer ---
+// tf2_msgs/TFMessage (`/tf`, `/tf_static`) collected into per-frame time series,
+// for placing the robot, point clouds and cameras in one fixed frame.
+
+export type Vec3 = [number, number, number];
+export type Quat = [number, number, number, number]; // x, y, z, w
+
+export interface Pose {
+    translation: Vec3;
+    rotation: Quat;
+}
+
+export const IDENTITY_POSE: Pose = { translation: [0, 0, 0], rotation: [0, 0, 0, 1] };
+
+export interface TransformStampedMsg {
+    header: { frame_id: string };
+    child_frame_id: string;
+    transform: {
+        translation: { x: number; y: number; z: number };
+        rotation: { x: number; y: number; z: number; w: number };
+    };
+}
+
+export interface TFMessage {
+    transforms: TransformStampedMsg[];
+}
+
+/** Transforms from one frame to its parent, sorted by time. */
+export interface FrameTransforms {
+    child: string;
+    parent: string;
+    isStatic: boolean; // From /tf_static: valid at every time
+    times: Float64Array; // ms, on the same clock as the frame timeline
+    values: Float64Array; // 7 per sample: tx, ty, tz, qx, qy, qz, qw
+}
+
+/** Plain form of a TransformBuffer, for posting between the worker and the page. */
+export interface TransformBufferData {
+    frames: FrameTransforms[];
+}
+
+const stripSlash = (frame: string) => frame.startsWith('/') ? frame.slice(1) : frame;
+
+/**
+ * Time-indexed TF tree. Lookups interpolate between the two samples around the
+ * requested time and hold the first/last sample outside the recorded span.
+ */
+export class TransformBuffer {
+    readonly frames: FrameTransforms[];
+    private byChild = new Map<string, FrameTransforms>();
+
+    constructor(data: TransformBufferData = { frames: [] }) {
+        this.frames = data.frames;
+        this.frames.forEach(f => this.byChild.set(f.child, f));
+    }
+
+    /**
+     * Build from TF messages with their timeline times. A frame keeps the parent of its
+     * first transform; later transforms re-parenting it are dropped.
+     */
+    static fromMessages(messages: { timeMs: number; message: TFMessage; isStatic: boolean }[]): TransformBuffer {
+        const samples = new Map<string, { parent: string; isStatic: boolean; entries: { t: number; v: number[] }[] }>();
+        for (const { timeMs, message, isStatic } of messages) {
+            for (const tf of message.transforms ?? []) {
+                const child = stripSlash(tf.child_frame_id);
+                const parent = stripSlash(tf.header.frame_id);
+                const { translation: p, rotation: q } = tf.transform;
+                const entry = samples.get(child) ?? { parent, isStatic, entries: [] };
+                if (entry.parent !== parent) continue;
+                entry.entries.push({ t: timeMs, v: [p.x, p.y, p.z, q.x, q.y, q.z, q.w] });
+                samples.set(child, entry);
+            }
+        }
+
+        return new TransformBuffer({
+            frames: Array.from(samples, ([child, { parent, isStatic, entries }]) => {
+                entries.sort((a, b) => a.t - b.t);
+                return {
+                    child,
+                    parent,
+                    isStatic,
+                    times: Float64Array.from(entries, e => e.t),
+                    values: Float64Array.from(entries.flatMap(e => e.v))
+                };
+            })
+        });
+    }
+
+    get isEmpty(): boolean {
+        return this.frames.length === 0;
+    }
+
+    /** Every frame named in the tree, parents included, sorted. */
+    get frameIds(): string[] {
+        const ids = new Set<string>();
+        this.frames.forEach(f => { ids.add(f.child); ids.add(f.parent); });
+        return Array.from(ids).sort();
+    }
+
+    has(frame: string): boolean {
+        frame = stripSlash(frame);
+        return this.byChild.has(frame) || this.frames.some(f => f.parent === frame);
+    }
+
+    /** The frame at the top of `frame`'s chain, which its `lookup` pose is relative to. */
+    rootOf(frame: string): string {
+        let current = stripSlash(frame);
+        const seen = new Set<string>();
+        while (this.byChild.has(current) && !seen.has(current)) {
+            seen.add(current);
+            current = this.byChild.get(current)!.parent;
+        }
+        return current;
+    }
+
+    /** Pose of `frame` in its tree's root frame at `timeMs`, or null if TF never mentions it. */
+    lookup(frame: string, timeMs: number): Pose | null {
+        frame = stripSlash(frame);
+        if (!this.has(frame)) return null;
+
+        let pose = IDENTITY_POSE;
+        const seen = new Set<string>();
+        for (let link = this.byChild.get(frame); link && !seen.has(link.child); link = this.byChild.get(link.parent)) {
+            seen.add(link.child); // A malformed tree can contain cycles
+            pose = compose(sampleAt(link, timeMs), pose);
+        }
+        return pose;
+    }
+
+    transferables(): ArrayBuffer[] {
+        return this.frames.flatMap(f => [f.times.buffer as ArrayBuffer, f.values.buffer as ArrayBuffer]);
+    }
+
+    toData(): TransformBufferData {
+        return { frames: this.frames };
+    }
+}
+
+function sampleAt(link: FrameTransforms, timeMs: number): Pose {
+    const { times, values } = link;
+    const count = times.length;
+    const read = (i: number): Pose => ({
+        translation: [values[i * 7], values[i * 7 + 1], values[i * 7 + 2]],
+        rotation: [values[i * 7 + 3], values[i * 7 + 4], values[i * 7 + 5], values[i * 7 + 6]]
+    });
+    if (link.isStatic || count === 1 || timeMs <= times[0]) return link.isStatic ? read(count - 1) : read(0);
+    if (timeMs >= times[count - 1]) return read(count - 1);
+
+    // First sample after timeMs
+    let lo = 0, hi = count - 1;
+    while (lo < hi) {
+        const mid = (lo + hi) >> 1;
+        if (times[mid] <= timeMs) lo = mid + 1;
+        else hi = mid;
+    }
+    const a = read(lo - 1), b = read(lo);
+    const span = times[lo] - times[lo - 1];
+    const f = span > 0 ? (timeMs - times[lo - 1]) / span : 1;
+    return {
+        translation: [0, 1, 2].map(k => a.translation[k] + (b.translation[k] - a.translation[k]) * f) as Vec3,
+        rotation: slerp(a.rotation, b.rotation, f)
+    };
+}
+
+// --- Pose Math ---
+
+/** `parent ∘ child`: a pose given in the child's parent frame, expressed one level up. */
+export function compose(parent: Pose, child: Pose): Pose {
+    const rotated = rotate(parent.rotation, child.translation);
+    return {
+        translation: [parent.translation[0] + rotated[0], parent.translation[1] + rotated[1], parent.translation[2] + rotated[2]],
+        rotation: multiply(parent.rotation, child.rotation)
+    };
+}
+
+/** The pose that undoes `pose`: `compose(invert(p), p)` is the identity. */
+export function invert(pose: Pose): Pose {
+    const [x, y, z, w] = pose.rotation;
+    const conjugate: Quat = [-x, -y, -z, w];
+    const t = rotate(conjugate, pose.translation);
+    return { translation: [-t[0], -t[1], -t[2]], rotation: conjugate };
+}
+
+function multiply(a: Quat, b: Quat): Quat {
+    const [ax, ay, az, aw] = a, [bx, by, bz, bw] = b;
+    return [
+        aw * bx + ax * bw + ay * bz - az * by,
+        aw * by - ax * bz + ay * bw + az * bx,
+        aw * bz + ax * by - ay * bx + az * bw,
+        aw * bw - ax * bx - ay * by - az * bz
+    ];
+}
+
+function rotate(q: Quat, v: Vec3): Vec3 {
+    const [x, y, z, w] = q;
+    // v + 2w(q × v) + 2 q × (q × v)
+    const cx = y * v[2] - z * v[1], cy = z * v[0] - x * v[2], cz = x * v[1] - y * v[0];
+    return [
+        v[0] + 2 * (w * cx + y * cz - z * cy),
+        v[1] + 2 * (w * cy + z * cx - x * cz),
+        v[2] + 2 * (w * cz + x * cy - y * cx)
+    ];
+}
+
+function slerp(a: Quat, b: Quat, f: number): Quat {
+    let dot = a[0] * b[0] + a[1] * b[1] + a[2] * b[2] + a[3] * b[3];
+    const sign = dot < 0 ? -1 : 1; // Take the short way round
+    dot *= sign;
+    if (dot > 0.9995) {
+        const q = a.map((c, k) => c + (sign * b[k] - c) * f);
+        const norm = Math.hypot(...q);
+        return q.map(c => c / norm) as Quat;
+    }
+    const theta = Math.acos(dot);
+    const wa = Math.sin((1 - f) * theta) / Math.sin(theta);
+    const wb = sign * Math.sin(f * theta) / Math.sin(theta);
+    return a.map((c, k) => c * wa + b[k] * wb) as Quat;
+}
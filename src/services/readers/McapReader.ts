@@ -0,0 +1,121 @@
+import type { MessageDefinition } from '@foxglove/message-definition';
+import { McapIndexedReader, type McapTypes } from '@mcap/core';
+import { parse as parseMessageDefinition } from '@foxglove/rosmsg';
+import { MessageReader as Ros1MessageReader } from '@foxglove/rosmsg-serialization';
+import { MessageReader as Ros2MessageReader } from '@foxglove/rosmsg2-serialization';
+import { decompress as decompressZstd } from 'fzstd';
+import { decompress as decompressLz4 } from 'lz4js';
+import {
+    normalizeRosType, nsToTime, timeToNs, ZERO_TIME,
+    type MessageIteratorOptions, type ReaderConnection, type ReaderMessage, type RecordingReader, type Time
+} from './types';
+
+interface Decoder {
+    readMessage(buffer: ArrayBufferView): unknown;
+}
+
+interface ChannelSchema {
+    definitions: MessageDefinition[];
+    decoder: Decoder;
+}
+
+// --- Browser File Adapter ---
+class BrowserReadable implements McapTypes.IReadable {
+    file: File;
+    constructor(file: File) { this.file = file; }
+    async size(): Promise<bigint> { return BigInt(this.file.size); }
+    async read(offset: bigint, size: bigint): Promise<Uint8Array> {
+        const start = Number(offset);
+        const slice = this.file.slice(start, start + Number(size));
+        return new Uint8Array(await slice.arrayBuffer());
+    }
+}
+
+const DECOMPRESS_HANDLERS: McapTypes.DecompressHandlers = {
+    lz4: (buffer, decompressedSize) => decompressLz4(buffer, Number(decompressedSize)),
+    zstd: (buffer, decompressedSize) => decompressZstd(buffer, new Uint8Array(Number(decompressedSize)))
+};
+
+/** Indexed MCAP files with `ros2msg` (cdr) or `ros1msg` (ros1) schemas. */
+export class McapReader implements RecordingReader {
+    readonly format = 'mcap' as const;
+    private file: File;
+    private reader: McapIndexedReader | null = null;
+    private decoders = new Map<number, Decoder>(); // ChannelId -> Decoder
+    private channels: ReaderConnection[] = [];
+    startTime: Time = ZERO_TIME;
+    endTime: Time = ZERO_TIME;
+
+    constructor(file: File) {
+        this.file = file;
+    }
+
+    async open(): Promise<void> {
+        try {
+            this.reader = await McapIndexedReader.Initialize({
+                readable: new BrowserReadable(this.file),
+                decompressHandlers: DECOMPRESS_HANDLERS
+            });
+        } catch (e) {
+            throw new Error(`Unable to read MCAP index (is the file finalized?): ${(e as Error).message}`);
+        }
+
+        const { statistics, chunkIndexes } = this.reader;
+        if (statistics) {
+            this.startTime = nsToTime(statistics.messageStartTime);
+            this.endTime = nsToTime(statistics.messageEndTime);
+        } else if (chunkIndexes.length > 0) {
+            this.startTime = nsToTime(chunkIndexes.reduce((t, c) => c.messageStartTime < t ? c.messageStartTime : t, chunkIndexes[0].messageStartTime));
+            this.endTime = nsToTime(chunkIndexes.reduce((t, c) => c.messageEndTime > t ? c.messageEndTime : t, chunkIndexes[0].messageEndTime));
+        }
+
+        for (const channel of this.reader.channelsById.values()) {
+            const schema = this.reader.schemasById.get(channel.schemaId);
+            if (!schema) continue;
+
+            const parsed = this.parseSchema(schema, channel.messageEncoding);
+            if (!parsed) {
+                console.warn(`Skipping ${channel.topic}: unsupported encoding ${schema.encoding}/${channel.messageEncoding}`);
+                continue;
+            }
+            this.decoders.set(channel.id, parsed.decoder);
+            this.channels.push({ topic: channel.topic, type: normalizeRosType(schema.name), definitions: parsed.definitions });
+        }
+    }
+
+    get connections(): ReaderConnection[] {
+        return this.channels;
+    }
+
+    async *messageIterator(opts: MessageIteratorOptions): AsyncIterable<ReaderMessage> {
+        if (!this.reader) throw new Error('MCAP file is not open.');
+
+        const iter = this.reader.readMessages({
+            topics: opts.topics,
+            startTime: opts.start ? timeToNs(opts.start) : undefined
+        });
+
+        for await (const msg of iter) {
+            const decoder = this.decoders.get(msg.channelId);
+            if (!decoder) continue;
+            yield {
+                topic: this.reader.channelsById.get(msg.channelId)!.topic,
+                timestamp: nsToTime(msg.logTime),
+                message: decoder.readMessage(msg.data)
+            };
+        }
+    }
+
+    private parseSchema(schema: McapTypes.Schema, messageEncoding: string): ChannelSchema | null {
+        const text = new TextDecoder().decode(schema.data);
+        if (schema.encoding === 'ros2msg' && messageEncoding === 'cdr') {
+            const definitions = parseMessageDefinition(text, { ros2: true });
+            return { definitions, decoder: new Ros2MessageReader(definitions, { timeType: 'sec,nsec' }) };
+        }
+        if (schema.encoding === 'ros1msg' && messageEncoding === 'ros1') {
+            const definitions = parseMessageDefinition(text);
+            return { definitions, decoder: new Ros1MessageReader(definitions) };
+        }
+        return null;
+    }
+}
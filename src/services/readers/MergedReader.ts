@@ -0,0 +1,147 @@
+import { ZERO_TIME, type MessageIteratorOptions, type RawMessage, type ReaderConnection, type ReaderMessage, type RecordingReader, type Ros1Connection, type Time, type TopicTimes } from './types';
+
+export interface SourcedMessage extends ReaderMessage {
+    source: number; // Index into MergedReader.sources
+}
+
+export interface SourcedTopicTimes extends TopicTimes {
+    source: Uint16Array; // Index into MergedReader.sources, per message
+}
+
+const compareTime = (a: Time, b: Time) => (a.sec - b.sec) || (a.nsec - b.nsec);
+
+/**
+ * Presents several recordings (e.g. split bags `bag_0.bag`, `bag_1.bag`, …) as one
+ * continuous stream. Connections are merged by topic and messages are yielded in
+ * record-time order, tagged with the index of the recording they came from.
+ */
+export class MergedReader {
+    readonly sources: RecordingReader[];
+    private topics: ReaderConnection[] = [];
+    startTime: Time = ZERO_TIME;
+    endTime: Time = ZERO_TIME;
+
+    constructor(sources: RecordingReader[]) {
+        // Source indices are stored per message as Uint16
+        if (sources.length > 0xffff) throw new Error(`Too many recording files (${sources.length}); at most 65535 can be opened together.`);
+        this.sources = sources;
+    }
+
+    async open(): Promise<void> {
+        await Promise.all(this.sources.map(s => s.open()));
+
+        const byTopic = new Map<string, ReaderConnection>();
+        for (const source of this.sources) {
+            for (const conn of source.connections) {
+                const existing = byTopic.get(conn.topic);
+                if (!existing) {
+                    byTopic.set(conn.topic, conn);
+                } else if (existing.type !== conn.type) {
+                    console.warn(`Topic ${conn.topic} has conflicting types: ${existing.type} vs ${conn.type}`);
+                }
+            }
+        }
+        this.topics = Array.from(byTopic.values());
+
+        const starts = this.sources.map(s => s.startTime).sort(compareTime);
+        const ends = this.sources.map(s => s.endTime).sort(compareTime);
+        this.startTime = starts[0] ?? ZERO_TIME;
+        this.endTime = ends[ends.length - 1] ?? ZERO_TIME;
+    }
+
+    get connections(): ReaderConnection[] {
+        return this.topics;
+    }
+
+    // Index-only loading works when every recording can list message times without payloads
+    get canReadMessageTimes(): boolean {
+        return this.sources.every(s => s.readMessageTimes !== undefined);
+    }
+
+    async readMessageTimes(topics: string[], onProgress?: (fraction: number) => void): Promise<Map<string, SourcedTopicTimes>> {
+        const perSource: Map<string, TopicTimes>[] = [];
+        for (let i = 0; i < this.sources.length; i++) {
+            const source = this.sources[i];
+            if (!source.readMessageTimes) throw new Error(`${source.format} recordings cannot be loaded from their index.`);
+            perSource.push(await source.readMessageTimes(topics, f => onProgress?.((i + f) / this.sources.length)));
+        }
+
+        const result = new Map<string, SourcedTopicTimes>();
+        for (const topic of topics) {
+            const parts = perSource.map((times, source) => ({ times: times.get(topic), source })).filter(p => p.times && p.times.sec.length > 0);
+            if (parts.length === 0) continue;
+
+            const total = parts.reduce((n, p) => n + p.times!.sec.length, 0);
+            const merged: SourcedTopicTimes = { sec: new Uint32Array(total), nsec: new Uint32Array(total), source: new Uint16Array(total) };
+            let offset = 0;
+            for (const { times, source } of parts) {
+                merged.sec.set(times!.sec, offset);
+                merged.nsec.set(times!.nsec, offset);
+                merged.source.fill(source, offset, offset + times!.sec.length);
+                offset += times!.sec.length;
+            }
+            result.set(topic, parts.length > 1 ? sortSourcedTimes(merged) : merged);
+        }
+        return result;
+    }
+
+    async *messageIterator(opts: MessageIteratorOptions): AsyncIterable<SourcedMessage> {
+        yield* mergeByTime(this.sources.map(s => s.messageIterator(opts)));
+    }
+
+    // Bag export copies messages unchanged, so every recording must be a ROS 1 bag
+    get canReadRawMessages(): boolean {
+        return this.sources.every(s => s.rawMessageIterator !== undefined && s.ros1Connections !== undefined);
+    }
+
+    /** ROS 1 connections merged by topic, the first recording's wins. */
+    get ros1Connections(): Ros1Connection[] {
+        const byTopic = new Map<string, Ros1Connection>();
+        this.sources.forEach(source => source.ros1Connections?.forEach(conn => { if (!byTopic.has(conn.topic)) byTopic.set(conn.topic, conn); }));
+        return Array.from(byTopic.values());
+    }
+
+    async *rawMessageIterator(opts: MessageIteratorOptions): AsyncIterable<RawMessage & { source: number }> {
+        if (!this.canReadRawMessages) throw new Error('Only ROS 1 recordings can be written to a bag.');
+        yield* mergeByTime(this.sources.map(s => s.rawMessageIterator!(opts)));
+    }
+}
+
+// Yield the messages of several time-ordered streams in time order, tagged with their stream
+async function* mergeByTime<T extends { timestamp: Time }>(streams: AsyncIterable<T>[]): AsyncIterable<T & { source: number }> {
+    const iterators = streams.map(s => s[Symbol.asyncIterator]());
+    const heads = await Promise.all(iterators.map(it => it.next()));
+
+    while (true) {
+        // Few sources, so a linear scan for the earliest head is enough
+        let next = -1;
+        let earliest: T | null = null;
+        for (let i = 0; i < heads.length; i++) {
+            const head = heads[i];
+            if (head.done) continue;
+            if (!earliest || compareTime(head.value.timestamp, earliest.timestamp) < 0) {
+                earliest = head.value;
+                next = i;
+            }
+        }
+        if (!earliest) return;
+
+        yield { ...earliest, source: next };
+        heads[next] = await iterators[next].next();
+    }
+}
+
+// Split recordings rarely overlap, but keep the merged times sorted if they do
+function sortSourcedTimes(times: SourcedTopicTimes): SourcedTopicTimes {
+    const { sec, nsec, source } = times;
+    let sorted = true;
+    for (let i = 1; i < sec.length && sorted; i++) sorted = sec[i] > sec[i - 1] || (sec[i] === sec[i - 1] && nsec[i] >= nsec[i - 1]);
+    if (sorted) return times;
+
+    const order = Array.from(sec, (_, k) => k).sort((a, b) => (sec[a] - sec[b]) || (nsec[a] - nsec[b]));
+    return {
+        sec: Uint32Array.from(order, k => sec[k]),
+        nsec: Uint32Array.from(order, k => nsec[k]),
+        source: Uint16Array.from(order, k => source[k])
+    };
+}
@@ -0,0 +1,183 @@
+import { Bag } from '@foxglove/rosbag';
+import { parse as parseMessageDefinition } from '@foxglove/rosmsg';
+import { packTopicTimes, ZERO_TIME, type MessageIteratorOptions, type RawMessage, type ReaderConnection, type ReaderMessage, type RecordingReader, type Ros1Connection, type Time, type TopicTimes } from './types';
+
+// Enough to cover a chunk record's header fields (op, compression, size)
+const CHUNK_HEADER_READAHEAD = 4096;
+const OP_INDEX_DATA = 0x04;
+const INDEX_ENTRY_BYTES = 12; // uint32 sec, uint32 nsec, uint32 offset
+
+// --- Index Records ---
+// Parsed here rather than through the package's internal record classes, which are not
+// part of its public API. Layout (bag format 2.0): int32 header length, header fields
+// (int32 length + `name=value`), int32 data length, data.
+interface IndexRecord {
+    conn: number;
+    sec: Uint32Array;
+    nsec: Uint32Array;
+}
+
+// A little-endian uint32 header field, or a format error naming the record it is missing from
+function uint32Field(fields: Map<string, DataView>, name: string, at: number): number {
+    const value = fields.get(name);
+    if (!value || value.byteLength < 4) throw new Error(`Index data record at ${at} has no valid '${name}' field.`);
+    return value.getUint32(0, true);
+}
+
+function* readIndexRecords(buffer: Uint8Array, position: number): Generator<IndexRecord> {
+    const view = new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+    let offset = 0;
+    while (offset + 4 <= buffer.length) {
+        const headerLength = view.getInt32(offset, true);
+        const headerStart = offset + 4;
+        const dataStart = headerStart + headerLength + 4;
+        if (headerLength < 0 || dataStart > buffer.length) throw new Error(`Truncated index record at ${position + offset}.`);
+        const dataLength = view.getInt32(headerStart + headerLength, true);
+        if (dataLength < 0 || dataStart + dataLength > buffer.length) throw new Error(`Truncated index record at ${position + offset}.`);
+
+        const fields = new Map<string, DataView>();
+        for (let f = headerStart; f + 4 <= headerStart + headerLength;) {
+            const fieldLength = view.getInt32(f, true);
+            if (fieldLength < 0 || f + 4 + fieldLength > headerStart + headerLength) throw new Error(`Malformed header field in index record at ${position + offset}.`);
+            const field = buffer.subarray(f + 4, f + 4 + fieldLength);
+            const eq = field.indexOf(0x3d); // '='
+            if (eq > 0) fields.set(String.fromCharCode(...field.subarray(0, eq)), new DataView(field.buffer, field.byteOffset + eq + 1, field.length - eq - 1));
+            f += 4 + fieldLength;
+        }
+        const at = position + offset;
+        offset = dataStart + dataLength;
+
+        const op = fields.get('op');
+        if (!op || op.byteLength < 1 || op.getUint8(0) !== OP_INDEX_DATA) continue;
+        const version = uint32Field(fields, 'ver', at);
+        if (version !== 1) throw new Error(`Unsupported index data version ${version} at ${at}.`);
+        const conn = uint32Field(fields, 'conn', at);
+        const count = Math.min(uint32Field(fields, 'count', at), Math.floor(dataLength / INDEX_ENTRY_BYTES));
+        const sec = new Uint32Array(count);
+        const nsec = new Uint32Array(count);
+        for (let i = 0; i < count; i++) {
+            sec[i] = view.getUint32(dataStart + i * INDEX_ENTRY_BYTES, true);
+            nsec[i] = view.getUint32(dataStart + i * INDEX_ENTRY_BYTES + 4, true);
+        }
+        yield { conn, sec, nsec };
+    }
+}
+
+// --- Browser File Adapter ---
+class BrowserFile {
+    file: File;
+    constructor(file: File) { this.file = file; }
+    async read(offset: number, length: number): Promise<Uint8Array> {
+        const slice = this.file.slice(offset, offset + length);
+        const arrayBuffer = await slice.arrayBuffer();
+        return new Uint8Array(arrayBuffer);
+    }
+    size(): number { return this.file.size; }
+}
+
+/** ROS 1 `.bag` files, read through `@foxglove/rosbag`. */
+export class Ros1BagReader implements RecordingReader {
+    readonly format = 'ros1' as const;
+    private file: BrowserFile;
+    private bag: Bag;
+    private rawBag: Promise<Bag> | null = null; // Same file without message parsing, opened on first use
+    private topics: ReaderConnection[] = [];
+
+    constructor(file: File) {
+        this.file = new BrowserFile(file);
+        this.bag = new Bag(this.file);
+    }
+
+    async open(): Promise<void> {
+        await this.bag.open();
+        this.topics = Array.from(this.bag.connections.values()).map(conn => ({
+            topic: conn.topic,
+            type: conn.type ?? '',
+            definitions: parseMessageDefinition(conn.messageDefinition)
+        }));
+    }
+
+    get startTime(): Time { return this.bag.startTime ?? ZERO_TIME; }
+    get endTime(): Time { return this.bag.endTime ?? ZERO_TIME; }
+
+    get connections(): ReaderConnection[] {
+        return this.topics;
+    }
+
+    async *messageIterator(opts: MessageIteratorOptions): AsyncIterable<ReaderMessage> {
+        for await (const msg of this.bag.messageIterator({ topics: opts.topics, start: opts.start })) {
+            yield { topic: msg.topic, timestamp: msg.timestamp, message: msg.message };
+        }
+    }
+
+    get ros1Connections(): Ros1Connection[] {
+        return Array.from(this.bag.connections.values()).map(conn => ({
+            topic: conn.topic,
+            type: conn.type ?? '',
+            md5sum: conn.md5sum ?? '*',
+            messageDefinition: conn.messageDefinition,
+            callerid: conn.callerid,
+            latching: conn.latching
+        }));
+    }
+
+    async *rawMessageIterator(opts: MessageIteratorOptions): AsyncIterable<RawMessage> {
+        this.rawBag ??= (async () => {
+            const bag = new Bag(this.file, { parse: false });
+            await bag.open();
+            return bag;
+        })();
+        const bag = await this.rawBag;
+        for await (const msg of bag.messageIterator({ topics: opts.topics, start: opts.start })) {
+            yield { topic: msg.topic, timestamp: msg.timestamp, data: msg.data };
+        }
+    }
+
+    /**
+     * Message times from the IndexData records that follow each chunk. Only chunk
+     * headers and index records are read, so chunk payloads are never touched.
+     */
+    async readMessageTimes(topics: string[], onProgress?: (fraction: number) => void): Promise<Map<string, TopicTimes>> {
+        const { header, chunkInfos } = this.bag;
+        if (!header) throw new Error('Bag is not open.');
+
+        const wanted = new Map<number, string>(); // Connection id -> topic
+        this.bag.connections.forEach((conn, id) => { if (topics.includes(conn.topic)) wanted.set(id, conn.topic); });
+
+        const collected = new Map<string, { sec: number[]; nsec: number[] }>();
+        for (let i = 0; i < chunkInfos.length; i++) {
+            const info = chunkInfos[i];
+            onProgress?.(i / chunkInfos.length);
+            if (!info.connections.some(c => wanted.has(c.conn))) continue;
+
+            // Chunk record: header length, header, data length, data; the index records follow
+            const head = await this.file.read(info.chunkPosition, CHUNK_HEADER_READAHEAD);
+            const view = new DataView(head.buffer, head.byteOffset, head.byteLength);
+            const headerLength = view.getInt32(0, true);
+            if (head.length < headerLength + 8) throw new Error(`Chunk header at ${info.chunkPosition} is too large: ${headerLength}.`);
+            const indexStart = info.chunkPosition + 8 + headerLength + view.getInt32(4 + headerLength, true);
+            const indexEnd = info.nextChunk?.chunkPosition ?? header.indexPosition;
+
+            const buffer = await this.file.read(indexStart, indexEnd - indexStart);
+            for (const record of readIndexRecords(buffer, indexStart)) {
+                const topic = wanted.get(record.conn);
+                if (!topic) continue;
+                let entry = collected.get(topic);
+                if (!entry) {
+                    entry = { sec: [], nsec: [] };
+                    collected.set(topic, entry);
+                }
+                for (let j = 0; j < record.sec.length; j++) {
+                    entry.sec.push(record.sec[j]);
+                    entry.nsec.push(record.nsec[j]);
+                }
+            }
+        }
+        onProgress?.(1);
+
+        // Chunks are written in time order but may overlap, so each topic is sorted once at the end
+        const result = new Map<string, TopicTimes>();
+        collected.forEach(({ sec, nsec }, topic) => result.set(topic, packTopicTimes(sec, nsec)));
+        return result;
+    }
+}
@@ -0,0 +1,64 @@
+import { Rosbag2, ROS2_DEFINITIONS_ARRAY, ROS2_TO_DEFINITIONS, SqliteSqljs } from '@foxglove/rosbag2-web';
+import { MessageReader } from '@foxglove/rosmsg2-serialization';
+import sqlWasmUrl from '@foxglove/sql.js/dist/sql-wasm.wasm?url';
+import {
+    normalizeRosType, ZERO_TIME,
+    type MessageIteratorOptions, type ReaderConnection, type ReaderMessage, type RecordingReader, type Time
+} from './types';
+
+/**
+ * rosbag2 sqlite (`.db3`) recordings. Messages are decoded with the bundled
+ * common ROS 2 definitions, so topics with custom types are skipped.
+ */
+export class Rosbag2Reader implements RecordingReader {
+    readonly format = 'rosbag2' as const;
+    private file: File;
+    private bag: Rosbag2 | null = null;
+    private decoders = new Map<string, MessageReader>(); // Topic -> Decoder
+    private topics: ReaderConnection[] = [];
+    startTime: Time = ZERO_TIME;
+    endTime: Time = ZERO_TIME;
+
+    constructor(file: File) {
+        this.file = file;
+    }
+
+    async open(): Promise<void> {
+        await SqliteSqljs.Initialize({ locateFile: () => sqlWasmUrl });
+
+        // Runs inside the bag worker, where sql.js can page the File lazily (FileReaderSync)
+        this.bag = new Rosbag2([new SqliteSqljs(this.file)]);
+        await this.bag.open();
+        [this.startTime, this.endTime] = await this.bag.timeRange();
+
+        for (const topic of await this.bag.readTopics()) {
+            const definition = ROS2_TO_DEFINITIONS.get(topic.type);
+            if (!definition || topic.serializationFormat !== 'cdr') {
+                console.warn(`Skipping ${topic.name}: no definition for ${topic.type}`);
+                continue;
+            }
+            const definitions = [definition, ...ROS2_DEFINITIONS_ARRAY];
+            this.decoders.set(topic.name, new MessageReader(definitions, { timeType: 'sec,nsec' }));
+            this.topics.push({ topic: topic.name, type: normalizeRosType(topic.type), definitions });
+        }
+    }
+
+    get connections(): ReaderConnection[] {
+        return this.topics;
+    }
+
+    async *messageIterator(opts: MessageIteratorOptions): AsyncIterable<ReaderMessage> {
+        if (!this.bag) throw new Error('rosbag2 database is not open.');
+
+        const iter = this.bag.readMessages({ topics: opts.topics, startTime: opts.start, rawMessages: true });
+        for await (const msg of iter) {
+            const decoder = this.decoders.get(msg.topic.name);
+            if (!decoder) continue;
+            yield {
+                topic: msg.topic.name,
+                timestamp: msg.timestamp,
+                message: decoder.readMessage(msg.data)
+            };
+        }
+    }
+}
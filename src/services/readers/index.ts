@@ -0,0 +1,63 @@
+import { McapReader } from './McapReader';
+import { Ros1BagReader } from './Ros1BagReader';
+import { Rosbag2Reader } from './Rosbag2Reader';
+import type { RecordingReader } from './types';
+
+export type * from './types';
+export { MergedReader, type SourcedMessage, type SourcedTopicTimes } from './MergedReader';
+
+export const SUPPORTED_EXTENSIONS = ['.bag', '.mcap', '.db3'];
+
+export const isSupportedRecording = (fileName: string): boolean =>
+    SUPPORTED_EXTENSIONS.some(ext => fileName.toLowerCase().endsWith(ext));
+
+export const stripRecordingExtension = (fileName: string): string =>
+    fileName.replace(/\.(bag|mcap|db3)$/i, '');
+
+/** Pick a reader implementation from the file extension. */
+export function createRecordingReader(file: File): RecordingReader {
+    const name = file.name.toLowerCase();
+    if (name.endsWith('.mcap')) return new McapReader(file);
+    if (name.endsWith('.db3')) return new Rosbag2Reader(file);
+    if (name.endsWith('.bag')) return new Ros1BagReader(file);
+    throw new Error(`Unsupported recording format: ${file.name}`);
+}
+
+const naturalCompare = (a: string, b: string) => a.localeCompare(b, undefined, { numeric: true });
+
+/** Split recordings sort by name so `bag_2` comes before `bag_10`. */
+export const sortRecordingFiles = (files: File[]): File[] =>
+    files.filter(f => isSupportedRecording(f.name)).sort((a, b) => naturalCompare(a.name, b.name));
+
+// --- Drag & Drop ---
+const readEntryFiles = async (entry: FileSystemEntry): Promise<File[]> => {
+    if (entry.isFile) {
+        return [await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject))];
+    }
+    if (entry.isDirectory) {
+        const dirReader = (entry as FileSystemDirectoryEntry).createReader();
+        const children: FileSystemEntry[] = [];
+        // readEntries returns results in batches until an empty batch
+        while (true) {
+            const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => dirReader.readEntries(resolve, reject));
+            if (batch.length === 0) break;
+            children.push(...batch);
+        }
+        const nested = await Promise.all(children.map(readEntryFiles));
+        return nested.flat();
+    }
+    return [];
+};
+
+/** Collect recordings from a drop, descending into dropped folders. */
+export async function collectDroppedRecordings(dataTransfer: DataTransfer): Promise<File[]> {
+    const entries = Array.from(dataTransfer.items)
+        .map(item => item.webkitGetAsEntry())
+        .filter((entry): entry is FileSystemEntry => entry !== null);
+
+    const files = entries.length > 0
+        ? (await Promise.all(entries.map(readEntryFiles))).flat()
+        : Array.from(dataTransfer.files);
+
+    return sortRecordingFiles(files);
+}
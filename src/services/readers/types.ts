@@ -0,0 +1,95 @@
+import type { MessageDefinition } from '@foxglove/message-definition';
+
+// --- Shared Reader Types ---
+export interface Time {
+    sec: number;
+    nsec: number;
+}
+
+export type RecordingFormat = 'ros1' | 'mcap' | 'rosbag2';
+
+export interface ReaderConnection {
+    topic: string;
+    // Normalized to the ROS 1 style name, e.g. `sensor_msgs/Image` (ROS 2 `sensor_msgs/msg/Image`)
+    type: string;
+    definitions?: MessageDefinition[]; // Parsed schema, root type first
+}
+
+export interface ReaderMessage {
+    topic: string;
+    timestamp: Time; // Record (receive) time
+    message: unknown; // Deserialized message, time fields use { sec, nsec }
+}
+
+/** A ROS 1 connection record: what a bag writer needs to copy the topic's messages unchanged. */
+export interface Ros1Connection {
+    topic: string;
+    type: string;
+    md5sum: string;
+    messageDefinition: string;
+    callerid?: string;
+    latching?: boolean;
+}
+
+export interface RawMessage {
+    topic: string;
+    timestamp: Time;
+    data: Uint8Array; // ROS 1 serialized
+}
+
+// Record times of one topic's messages, sorted ascending
+export interface TopicTimes {
+    sec: Uint32Array;
+    nsec: Uint32Array;
+}
+
+export interface MessageIteratorOptions {
+    topics: string[];
+    start?: Time;
+}
+
+/**
+ * Common interface over the recording formats `BagService` can load.
+ * Implementations yield messages in record-time order.
+ */
+export interface RecordingReader {
+    readonly format: RecordingFormat;
+    readonly connections: ReaderConnection[];
+    // First and last record time, available after open()
+    readonly startTime: Time;
+    readonly endTime: Time;
+    open(): Promise<void>;
+    messageIterator(opts: MessageIteratorOptions): AsyncIterable<ReaderMessage>;
+    // Optional: message times straight from the recording's index, without reading payloads
+    readMessageTimes?(topics: string[], onProgress?: (fraction: number) => void): Promise<Map<string, TopicTimes>>;
+    // Optional: ROS 1 connections and serialized messages, for writing them to a new bag
+    readonly ros1Connections?: Ros1Connection[];
+    rawMessageIterator?(opts: MessageIteratorOptions): AsyncIterable<RawMessage>;
+}
+
+// --- Helpers ---
+export const ZERO_TIME: Time = { sec: 0, nsec: 0 };
+
+export const normalizeRosType = (type: string): string => type.replace('/msg/', '/');
+
+export const timeToNs = (t: Time): bigint => BigInt(t.sec) * 1_000_000_000n + BigInt(t.nsec);
+
+export const nsToTime = (ns: bigint): Time => ({
+    sec: Number(ns / 1_000_000_000n),
+    nsec: Number(ns % 1_000_000_000n)
+});
+
+/** Pack collected times into a TopicTimes, sorting them if they arrived out of order. */
+export function packTopicTimes(sec: number[], nsec: number[]): TopicTimes {
+    let order: number[] | null = null;
+    for (let i = 1; i < sec.length; i++) {
+        if (sec[i] < sec[i - 1] || (sec[i] === sec[i - 1] && nsec[i] < nsec[i - 1])) {
+            order = Array.from(sec, (_, k) => k).sort((a, b) => (sec[a] - sec[b]) || (nsec[a] - nsec[b]));
+            break;
+        }
+    }
+    return {
+        sec: Uint32Array.from(order ? order.map(k => sec[k]) : sec),
+        nsec: Uint32Array.from(order ? order.map(k => nsec[k]) : nsec)
+    };
+}
@@ -0,0 +1,81 @@
+import { BagIndexer } from '../services/BagIndexer';
+import { JointHistory } from '../services/JointHistory';
+import { TransformBuffer } from '../services/TransformBuffer';
+import type { WorkerRequest, WorkerResponse } from './protocol';
+
+const indexer = new BagIndexer();
+const cancellable = new Map<number, AbortController>(); // Request id -> frame decode or bag export, for 'cancel'
+
+const post = (msg: WorkerResponse, transfer: Transferable[] = []) => self.postMessage(msg, { transfer });
+
+self.onmessage = async (e: MessageEvent<WorkerRequest>) => {
+    const req = e.data;
+    try {
+        switch (req.type) {
+            case 'load': {
+                const result = await indexer.load(req.files, req.sync, req.indexing, progress => post({ type: 'progress', id: req.id, progress }));
+                // The joint columns are only needed on the page, so hand their buffers over
+                post({ type: 'loaded', id: req.id, result }, [
+                    ...new JointHistory(result.jointHistory).transferables(),
+                    ...new TransformBuffer(result.transforms).transferables()
+                ]);
+                break;
+            }
+            case 'frame': {
+                const controller = new AbortController();
+                cancellable.set(req.id, controller);
+                try {
+                    const frame = await indexer.decodeFrameImages(req.index, controller.signal);
+                    post({ type: 'frame', id: req.id, frame }, [
+                        ...Object.values(frame.images),
+                        ...Object.values(frame.depth).map(d => d.data.buffer as ArrayBuffer),
+                        ...Object.values(frame.clouds).flatMap(c => c.colors ? [c.positions.buffer, c.colors.buffer] : [c.positions.buffer])
+                    ]);
+                } finally {
+                    cancellable.delete(req.id);
+                }
+                break;
+            }
+            case 'writeBag': {
+                const controller = new AbortController();
+                cancellable.set(req.id, controller);
+                try {
+                    const bag = await indexer.writeBag(req.request, progress => post({ type: 'progress', id: req.id, progress }), controller.signal);
+                    post({ type: 'bag', id: req.id, bag });
+                } finally {
+                    cancellable.delete(req.id);
+                }
+                break;
+            }
+            case 'depthDisplay': {
+                indexer.setDepthDisplay(req.settings);
+                post({ type: 'depthDisplay', id: req.id });
+                break;
+            }
+            case 'cancel': {
+                cancellable.get(req.id)?.abort();
+                break;
+            }
+            case 'window': {
+                const window = await indexer.loadWindow(req.startFrame, req.endFrame);
+                post({ type: 'window', id: req.id, window }, new JointHistory(window.jointHistory).transferables());
+                break;
+            }
+            case 'signals': {
+                const signals = await indexer.loadSignals(req.paths);
+                post({ type: 'signals', id: req.id, signals }, signals.map(s => s.values.buffer as ArrayBuffer));
+                break;
+            }
+            case 'taskStates': {
+                const states = await indexer.loadTaskStates(req.topic, req.field);
+                post({ type: 'taskStates', id: req.id, states });
+                break;
+            }
+        }
+    } catch (err) {
+        // Nobody waits for a cancelled request
+        if ((err as Error).name === 'AbortError') return;
+        console.error(`Bag worker failed on '${req.type}':`, err);
+        post({ type: 'error', id: req.id, message: (err as Error).message });
+    }
+};
@@ -0,0 +1,27 @@
+import type { BagExportRequest, DecodedFrame, IndexingMode, LoadProgress, LoadResult, SignalSeries, WindowResult } from '../services/BagIndexer';
+import type { DepthDisplay } from '../services/DepthDisplay';
+import type { SyncOptions } from '../services/TimelineSync';
+
+// --- Bag Worker Message Protocol ---
+// Every request carries an id; the worker answers with messages tagged with the same id.
+
+export type WorkerRequest =
+    | { type: 'load'; id: number; files: File[]; sync: SyncOptions; indexing: IndexingMode }
+    | { type: 'frame'; id: number; index: number }
+    | { type: 'window'; id: number; startFrame: number; endFrame: number }
+    | { type: 'signals'; id: number; paths: string[] }
+    | { type: 'taskStates'; id: number; topic: string; field: string }
+    | { type: 'depthDisplay'; id: number; settings: Record<string, DepthDisplay> }
+    | { type: 'writeBag'; id: number; request: BagExportRequest }
+    | { type: 'cancel'; id: number }; // Abort the request with this id; no response
+
+export type WorkerResponse =
+    | { type: 'progress'; id: number; progress: LoadProgress }
+    | { type: 'loaded'; id: number; result: LoadResult }
+    | { type: 'frame'; id: number; frame: DecodedFrame } // Bitmaps are transferred
+    | { type: 'window'; id: number; window: WindowResult }
+    | { type: 'signals'; id: number; signals: SignalSeries[] }
+    | { type: 'taskStates'; id: number; states: string[] }
+    | { type: 'depthDisplay'; id: number }
+    | { type: 'bag'; id: number; bag: Blob }
+    | { type: 'error'; id: number; message: string };
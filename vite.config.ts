@@ -10,7 +10,11 @@ export default defineConfig({
   ],
   base: '/rosbag-annotator/',
   define: {
-    global: 'window',
+    // globalThis also exists inside the bag worker, where window does not
+    global: 'globalThis',
+  },
+  worker: {
+    format: 'es',
   },
   server: {
     headers: {